@@ -23,6 +23,17 @@ export default defineConfig([
 			"obsidianmd/sample-names": "off",
 		},
 	},
+	{
+		// Tests run in Node, and node:test awaits the promises describe() and test() return
+		files: ["tests/**/*.ts"],
+		languageOptions: {
+			globals: globals.node,
+		},
+		rules: {
+			"import/no-nodejs-modules": "off",
+			"@typescript-eslint/no-floating-promises": "off",
+		},
+	},
 	{
 		files: ["**/*.mjs"],
 		languageOptions: {
@@ -0,0 +1,208 @@
+// Markdown link parsing for finding links in note source, kept free of Obsidian APIs
+// so it can be tested on its own
+
+// A link found in Markdown source. Reference links carry their label instead of a URL.
+export interface MarkdownLink {
+    from: number;
+    to: number;
+    url?: string;
+    ref?: string;
+}
+
+// Cheap test for text that parseMarkdownLinks might find links in: URLs, inline links, reference definitions and autolinks
+export function mayContainLinks(text: string): boolean {
+    return /:\/\/|\]\(|\]:|<[a-z][a-z0-9+.-]*:/i.test(text);
+}
+
+/**
+ * Scans Markdown source for inline links, reference links, autolinks and bare URLs.
+ * Offsets are relative to `text`. Reference links carry the label instead of a URL.
+ */
+export function parseMarkdownLinks(text: string): MarkdownLink[] {
+    const links: MarkdownLink[] = [];
+    let i = 0;
+
+    while (i < text.length) {
+        const ch = text[i];
+
+        if (ch === '\\') {
+            i += 2;
+            continue;
+        }
+
+        // Code span: links inside it are literal text
+        if (ch === '`') {
+            i = skipCodeSpan(text, i);
+            continue;
+        }
+
+        // Autolink: <https://...>
+        if (ch === '<') {
+            const close = text.indexOf('>', i + 1);
+            if (close !== -1 && /^[a-z][a-z0-9+.-]*:[^\s<>]*$/i.test(text.slice(i + 1, close))) {
+                links.push({ from: i, to: close + 1, url: text.slice(i + 1, close) });
+                i = close + 1;
+                continue;
+            }
+        }
+
+        if (ch === '[') {
+            const labelEnd = findClosingBracket(text, i);
+            if (labelEnd === -1) {
+                i++;
+                continue;
+            }
+            const label = text.slice(i + 1, labelEnd);
+            const next = text[labelEnd + 1];
+
+            // Inline link: [text](destination "title")
+            if (next === '(') {
+                const destination = parseLinkDestination(text, labelEnd + 2);
+                if (destination) {
+                    links.push({ from: i, to: destination.end, url: destination.url });
+                    i = destination.end;
+                    continue;
+                }
+            }
+
+            // Full or collapsed reference link: [text][ref] or [text][]
+            if (next === '[') {
+                const refEnd = findClosingBracket(text, labelEnd + 1);
+                if (refEnd !== -1) {
+                    const ref = text.slice(labelEnd + 2, refEnd);
+                    links.push({ from: i, to: refEnd + 1, ref: ref.trim() ? ref : label });
+                    i = refEnd + 1;
+                    continue;
+                }
+            }
+
+            // Shortcut reference link: [ref]
+            links.push({ from: i, to: labelEnd + 1, ref: label });
+            i = labelEnd + 1;
+            continue;
+        }
+
+        // Bare URL
+        const bare = /^https?:\/\/[^\s<>]+/i.exec(text.slice(i));
+        if (bare) {
+            // Trailing punctuation is not part of a bare URL
+            const url = bare[0].replace(/[.,;:!?'"*_~]+$/, '');
+            links.push({ from: i, to: i + url.length, url });
+            i += url.length;
+            continue;
+        }
+
+        i++;
+    }
+
+    return links;
+}
+
+// Index just past the code span opening at `start`, or past its backticks when they're never closed
+function skipCodeSpan(text: string, start: number): number {
+    const runEnd = (from: number) => {
+        let end = from;
+        while (text[end] === '`') end++;
+        return end;
+    };
+    const fenceEnd = runEnd(start);
+    const length = fenceEnd - start;
+
+    // The closing run must have exactly as many backticks as the opening one
+    for (let i = text.indexOf('`', fenceEnd); i !== -1; i = text.indexOf('`', i)) {
+        const end = runEnd(i);
+        if (end - i === length) return end;
+        i = end;
+    }
+    return fenceEnd;
+}
+
+function findClosingBracket(text: string, open: number): number {
+    let depth = 0;
+    for (let i = open; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '\\') {
+            i++;
+        } else if (ch === '[') {
+            depth++;
+        } else if (ch === ']') {
+            depth--;
+            if (depth === 0) return i;
+        }
+    }
+    return -1;
+}
+
+function parseLinkDestination(text: string, start: number): { url: string, end: number } | null {
+    let i = start;
+    while (text[i] === ' ' || text[i] === '\t') i++;
+
+    let url: string;
+    if (text[i] === '<') {
+        // Angle-bracket destination may contain spaces and parentheses
+        const close = text.indexOf('>', i + 1);
+        if (close === -1) return null;
+        url = text.slice(i + 1, close);
+        i = close + 1;
+    } else {
+        // Plain destination: balanced parentheses, no whitespace
+        const urlStart = i;
+        let depth = 0;
+        while (i < text.length) {
+            const ch = text[i];
+            if (ch === '\\') {
+                i += 2;
+                continue;
+            }
+            if (/\s/.test(ch)) break;
+            if (ch === '(') depth++;
+            if (ch === ')') {
+                if (depth === 0) break;
+                depth--;
+            }
+            i++;
+        }
+        url = text.slice(urlStart, i).replace(/\\([()])/g, '$1');
+    }
+
+    // Optional title, separated from the destination by whitespace
+    const titleStart = i;
+    while (text[i] === ' ' || text[i] === '\t') i++;
+    const closer = ({ '"': '"', "'": "'", '(': ')' } as Record<string, string>)[text[i]];
+    if (closer && i > titleStart) {
+        i = findTitleEnd(text, i + 1, closer);
+        if (i === -1) return null;
+        while (text[i] === ' ' || text[i] === '\t') i++;
+    }
+
+    if (text[i] !== ')') return null;
+    return { url, end: i + 1 };
+}
+
+// Index just past the title's closing delimiter, -1 if it isn't closed
+function findTitleEnd(text: string, start: number, closer: string): number {
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '\\') {
+            i++;
+        } else if (ch === closer) {
+            return i + 1;
+        } else if (closer === ')' && ch === '(') {
+            // Parenthesized titles can't contain unescaped parentheses
+            return -1;
+        }
+    }
+    return -1;
+}
+
+// Reference definition lines: `[label]: destination "title"`
+export function parseReferenceDefinition(line: string): { label: string, url: string } | null {
+    const match = /^ {0,3}\[((?:[^\]\\]|\\.)+)\]:\s*(?:<([^>]*)>|(\S+))/.exec(line);
+    if (!match) return null;
+    return { label: match[1], url: match[2] ?? match[3] };
+}
+
+// Reference labels match case-insensitively with collapsed whitespace
+export function normalizeReferenceLabel(label: string): string {
+    return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
@@ -1,4 +1,9 @@
-import { App, Plugin, PluginSettingTab, Setting, SettingGroup, MarkdownView, Platform, setIcon, setTooltip } from 'obsidian';
+import { App, Component, debounce, Debouncer, Editor, editorInfoField, editorLivePreviewField, FileSystemAdapter, FileView, htmlToMarkdown, moment, normalizePath, ItemView, MarkdownRenderer, MarkdownView, Menu, Modal, Notice, Plugin, PluginSettingTab, Setting, SettingGroup, Platform, requestUrl, RequestUrlParam, RequestUrlResponse, sanitizeHTMLToDom, setIcon, setTooltip, TFile, ViewStateResult, WorkspaceLeaf } from 'obsidian';
+import { EditorState, Extension, RangeSetBuilder, StateEffect } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate, WidgetType } from '@codemirror/view';
+import { ensureSyntaxTree, syntaxTree } from '@codemirror/language';
+import { FetchedPage, fetchPage, getPageMetadata, normalizeHeaders, PageFetcher, PageMetadata, parsePageMetadata } from './metadata';
+import { mayContainLinks, normalizeReferenceLabel, parseMarkdownLinks, parseReferenceDefinition } from './links';
 
 type ModifierKeyType = 'meta' | 'ctrl' | 'alt' | 'shift';
 
@@ -9,24 +14,304 @@ interface ModifierKeyConfig {
     shift: boolean;
 }
 
+// How a profile opens previews with a mouse or pen. Touch screens use the touch settings.
+type TriggerAction = 'hover' | 'click' | 'middle-click' | 'long-press';
+
+interface TriggerProfile {
+    id: string;
+    name: string;
+    action: TriggerAction;
+    // Keys held while triggering. Hover needs at least these, clicks and presses exactly these.
+    modifierKeys: ModifierKeyConfig;
+    // Hover: time before the preview opens. Long press: time the button is held.
+    delay: number;
+    // Hover only: time the mouse must be stationary (0 = disabled)
+    stillnessDelay: number;
+    closeOnModifierRelease: boolean;
+    // Keep the popup open until escape or a click outside
+    sticky: boolean;
+}
+
+// Where a link is, each with its own trigger profile, see getTriggerContext()
+type TriggerContext = 'source' | 'live-preview' | 'reading' | 'canvas' | 'other';
+
 interface LinkPreviewSettings {
     maxPreviewHeight: number;
     maxPreviewWidth: number;
-    hoverDelay: number;
-    requireModifierKey: boolean;
-    modifierKeys: ModifierKeyConfig;
-    closeOnModifierRelease: boolean;
-    mouseStillnessDelay: number;
-    stickyPopup: boolean;
+    triggerProfiles: TriggerProfile[];
+    // Profile id by context, empty = no previews there
+    contextProfiles: Record<TriggerContext, string>;
+    hoverEnabled: boolean;
     showOpenInBrowser: boolean;
     showCloseButton: boolean;
+    showPinButton: boolean;
+    showOpenInView: boolean;
+    touchTrigger: TouchTrigger;
+    touchLayout: TouchLayout;
+    showZoomButtons: boolean;
+    showCaptureButton: boolean;
+    showNavigationBar: boolean;
+    linkClickAction: LinkClickAction;
+    captureTarget: CaptureTarget;
+    // Empty uses the default location for new notes
+    captureFolder: string;
+    captureTemplate: string;
+    captureDownloadImage: boolean;
+    fitToContent: boolean;
+    rememberZoomAndScroll: boolean;
+    privacyProfile: PrivacyProfile;
+    stripTrackingParams: boolean;
+    previewMode: PreviewMode;
+    blockedFallback: BlockedFallback;
+    checkHeaders: boolean;
+    loadTimeout: number;
+    cacheSize: number;
+    prefetchOnModifier: boolean;
+    disabledAdapters: string[];
+    // Surfaces where hovering links doesn't preview, see LINK_SURFACES
+    disabledSurfaces: string[];
+    customAdapters: CustomAdapterRule[];
+    // Domain glob patterns, see matchesDomain()
+    allowedDomains: string[];
+    deniedDomains: string[];
+    domainRules: DomainRule[];
+    resolveRedirects: RedirectResolution;
+    // Domain glob patterns resolved in "short-links" mode
+    shortLinkDomains: string[];
+    // Link annotations in Live Preview and Reader mode
+    showLinkFavicons: boolean;
+    showLinkDomains: boolean;
+    markFailedLinks: boolean;
+}
+
+// Per-domain overrides. Empty/zero values fall back to the global settings.
+interface DomainRule {
+    pattern: string;
+    previewMode: PreviewMode | '';
+    maxWidth: number;
+    maxHeight: number;
+    hoverDelay?: number;
+    disableScripts: boolean;
+}
+
+// Format used to import and export domain settings as JSON
+interface DomainRulesExport {
+    allowedDomains: string[];
+    deniedDomains: string[];
+    domainRules: DomainRule[];
+}
+
+interface PanelBounds {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+}
+
+type PrivacyProfile = 'full' | 'reduced' | 'strict';
+
+interface PrivacyProfileConfig {
+    label: string;
+    description: string;
+    icon: string;
+    // Iframe sandbox flags (undefined = no sandbox)
+    sandbox?: string;
+    referrerPolicy?: string;
+    // Permissions policy for the iframe
+    allow?: string;
+}
+
+type LinkKind = 'web' | 'obsidian' | 'file' | 'mailto' | 'tel';
+
+// New note, or a callout appended to the note containing the link
+type CaptureTarget = 'note' | 'current-note';
+
+type TouchTrigger = 'long-press' | 'double-tap' | 'off';
+
+// Bottom sheet, or a popup spanning the window width
+type TouchLayout = 'sheet' | 'popup';
+
+type PreviewPlacement = 'below' | 'above' | 'right' | 'left';
+
+type MediaType = 'image' | 'video' | 'audio' | 'pdf';
+
+type PreviewMode = 'iframe' | 'card' | 'readable' | 'auto';
+
+type PreviewRenderer = 'iframe' | 'card' | 'readable';
+
+// What automatic mode shows when a site blocks embedding
+type BlockedFallback = 'card' | 'readable';
+
+// Which links are followed to their destination before previewing
+type RedirectResolution = 'off' | 'short-links' | 'all';
+
+// What clicking a link inside a card or readable preview does
+type LinkClickAction = 'navigate' | 'browser' | 'preview';
+
+export interface PreviewAdapter {
+    id: string;
+    name: string;
+    matches: (url: URL) => boolean;
+    // Rewrites the URL loaded in the preview (e.g. watch page → embed player)
+    rewriteUrl?: (url: URL) => string;
+    // Pixels cropped from the top of the page (sticky headers, progress bars)
+    cropTop?: number;
+    zoom?: number;
+    // Size the embed looks best at, used by "fit to content"
+    naturalSize?: { width: number, height: number };
+    renderer?: PreviewRenderer;
+}
+
+// Renders previews for matching URLs instead of the built-in renderers
+export interface CustomPreviewRenderer {
+    id: string;
+    matches: (url: URL) => boolean;
+    // `component` is unloaded when the preview is destroyed
+    render: (container: HTMLElement, url: string, component: Component) => void | Promise<void>;
+}
+
+/**
+ * API for other plugins, available as `app.plugins.plugins['url-preview'].api`.
+ * Workspace events:
+ * - `url-preview:open` (url, element) when a hover preview opens
+ * - `url-preview:close` (url, element) when a hover or pinned preview closes
+ * - `url-preview:load-failed` (url, element, error) when a preview shows an error
+ */
+export interface UrlPreviewApi {
+    // Shows the hover preview for `url` anchored at `anchor`. Returns false if the URL can't be previewed.
+    showPreview(url: string, anchor: HTMLElement): boolean;
+    closePreview(): void;
+    // Adapters registered by plugins take precedence over the built-in ones. Returns an unregister function.
+    registerAdapter(adapter: PreviewAdapter): () => void;
+    // Renderers are checked in registration order, before any built-in renderer. Returns an unregister function.
+    registerRenderer(renderer: CustomPreviewRenderer): () => void;
+}
+
+// A part of the app links can be hovered in, with its own way of finding their URL
+interface LinkSurface {
+    id: string;
+    name: string;
+    description: string;
+    // Container of the surface. Surfaces are checked in order, so nested ones come first.
+    selector: string;
+    // Elements that carry a URL here but aren't matched by LINK_SELECTOR
+    linkSelector?: string;
+    // Rendered as widgets in the editor, so the DOM has the real link rather than the syntax tree
+    domOnly?: boolean;
+    // Looks up the URL through the surface's own data, before falling back to the DOM
+    extractUrl?: (el: HTMLElement, app: App) => string | null;
+}
+
+// Canvas internals used to read link cards. Not part of the public API, so every part may be missing
+interface CanvasViewLike {
+    canvas?: {
+        // A Map by node id in current versions
+        nodes?: { values?: () => Iterable<{ nodeEl?: unknown, url?: unknown } | null | undefined> };
+    };
+}
+
+// State of a rendered popup, shared by renderers so they can retry or switch mode
+interface PreviewContext {
+    previewEl: HTMLElement;
+    // Original link URL
+    url: string;
+    // URL loaded in the iframe after adapter rewrites
+    previewUrl: string;
+    adapter?: PreviewAdapter;
+    domainRule?: DomainRule;
+    // Bounds of the link the popup is anchored to (hover popups only)
+    anchorRect?: DOMRect;
+    // Set while the popup is shown for a touch, see TouchLayout
+    touchLayout?: TouchLayout;
+    // Arrow pointing at the link, shown while the popup is anchored to it
+    arrowEl?: HTMLElement;
+    // Natural size reported by the content, when smaller than the maximum
+    contentSize?: { width: number, height: number };
+    zoom: number;
+    // Mode of the latest render, which Retry repeats after an error
+    mode?: PreviewMode;
+    // Owns rendered Markdown and other child components, unloaded with the preview
+    component: Component;
+    // Incremented on every render so stale async results are dropped
+    generation: number;
+    // Note the link was in, used to evict cached previews when the note closes
+    sourcePath?: string;
+    // Link text, compared with where a redirected link ends up
+    linkText?: string;
+    // Link a resolved redirect started from, `url` is where it ended
+    redirectedFrom?: string;
+    // URLs visited inside the popup, `url` is the one at historyIndex
+    history: string[];
+    historyIndex: number;
+    // Set when the iframe followed a link, its new address isn't readable cross-origin
+    frameNavigated?: boolean;
+    // Preview opened from a link inside this one, and the preview this one was opened from
+    child?: PreviewContext;
+    parent?: PreviewContext;
+}
+
+interface PreviewCacheStats {
+    size: number;
+    hits: number;
+    misses: number;
+    evictions: number;
+    prefetches: number;
+}
+
+export interface PreviewError {
+    kind: 'blocked' | 'http' | 'timeout' | 'network';
+    status?: number;
+    message: string;
+}
+
+// Result of checking one link, see checkLink()
+interface LinkCheckResult {
+    url: string;
+    status?: number;
+    // Set when the request failed without a response
+    error?: string;
+    // Where the link's HTTP redirects end up, and whether all of them were permanent (301, 308)
+    redirect?: string;
+    permanent?: boolean;
+    framing?: 'allowed' | 'blocked';
+    // Milliseconds until the response
+    time: number;
+}
+
+// A response on the way to where a link ends up, see followRedirects()
+interface RedirectHop {
+    url: string;
+    status: number;
+    // Lowercase names
+    headers: Record<string, string>;
+}
+
+// User-defined adapter, stored in settings
+interface CustomAdapterRule {
+    // Regular expression matched against the full URL
+    pattern: string;
+    // Replacement for the matched URL, supports $1, $2... (empty = load original URL)
+    rewrite: string;
+    cropTop: number;
+    zoom: number;
 }
 
 // Legacy settings interface for migration
 interface LegacyLinkPreviewSettings {
     modifierKey?: ModifierKeyType;
+    // Replaced by trigger profiles
+    hoverDelay?: number;
+    requireModifierKey?: boolean;
+    modifierKeys?: ModifierKeyConfig;
+    closeOnModifierRelease?: boolean;
+    mouseStillnessDelay?: number;
+    stickyPopup?: boolean;
 }
 
+const LEGACY_SETTING_KEYS: (keyof LegacyLinkPreviewSettings)[] = ['modifierKey', 'hoverDelay', 'requireModifierKey', 'modifierKeys', 'closeOnModifierRelease', 'mouseStillnessDelay', 'stickyPopup'];
+
+const MODIFIER_KEY_TYPES: ModifierKeyType[] = ['meta', 'ctrl', 'alt', 'shift'];
+
 const DEFAULT_MODIFIER_KEYS: ModifierKeyConfig = {
     meta: false,
     ctrl: false,
@@ -34,32 +319,437 @@ const DEFAULT_MODIFIER_KEYS: ModifierKeyConfig = {
     shift: false,
 };
 
-const DEFAULT_SETTINGS: Readonly<Omit<LinkPreviewSettings, 'modifierKeys'>> = {
+// Placeholders are filled in by fillCaptureTemplate()
+const DEFAULT_CAPTURE_TEMPLATE = `# {{title}}
+
+Source: [{{site}}](<{{url}}>)
+Captured: {{date}}
+
+{{image}}
+
+> {{description}}
+
+{{content}}
+`;
+
+// Class names and ids of page chrome that isn't caught by NON_CONTENT_SELECTOR
+const BOILERPLATE_PATTERN = /(^|[\s_-])(cookies?|consent|gdpr|banner|newsletter|subscribe|share|social|related|promo|advert|ads?|sidebar|popup|modal)([\s_-]|$)/i;
+// Blocks matching BOILERPLATE_PATTERN are only dropped with less text than this, or more links
+const BOILERPLATE_MAX_TEXT_LENGTH = 500;
+const BOILERPLATE_MIN_LINK_DENSITY = 0.5;
+
+const READING_WORDS_PER_MINUTE = 200;
+
+// Elements left out of captured page text
+const NON_CONTENT_SELECTOR = 'script, style, noscript, iframe, svg, form, nav, header, footer, aside, [role="navigation"], [role="banner"], [role="contentinfo"], [aria-hidden="true"]';
+
+const DEFAULT_SETTINGS: Readonly<Omit<LinkPreviewSettings, 'triggerProfiles'>> = {
     maxPreviewHeight: 960,
     maxPreviewWidth: 720,
-    hoverDelay: 500,
-    requireModifierKey: true,
-    closeOnModifierRelease: true,
-    mouseStillnessDelay: 0,
-    stickyPopup: false,
+    contextProfiles: {
+        'source': 'modifier-hover',
+        'live-preview': 'modifier-hover',
+        'reading': 'modifier-hover',
+        'canvas': 'modifier-hover',
+        'other': 'modifier-hover',
+    },
+    hoverEnabled: true,
     showOpenInBrowser: true,
     showCloseButton: true,
-    // modifierKeys default is set dynamically in loadSettings() based on platform
+    showPinButton: true,
+    showOpenInView: true,
+    touchTrigger: 'long-press',
+    touchLayout: 'sheet',
+    showZoomButtons: true,
+    showCaptureButton: true,
+    showNavigationBar: true,
+    linkClickAction: 'navigate',
+    captureTarget: 'note',
+    captureFolder: '',
+    captureTemplate: DEFAULT_CAPTURE_TEMPLATE,
+    captureDownloadImage: false,
+    fitToContent: true,
+    rememberZoomAndScroll: true,
+    privacyProfile: 'full',
+    stripTrackingParams: false,
+    previewMode: 'iframe',
+    blockedFallback: 'card',
+    checkHeaders: false,
+    loadTimeout: 15000,
+    cacheSize: 3,
+    prefetchOnModifier: false,
+    disabledAdapters: [],
+    disabledSurfaces: [],
+    customAdapters: [],
+    allowedDomains: [],
+    deniedDomains: [],
+    domainRules: [],
+    resolveRedirects: 'short-links',
+    shortLinkDomains: ['bit.ly', 't.co', 'lnkd.in', 'doi.org', 'tinyurl.com', 'goo.gl', 'ow.ly', 'buff.ly', 'is.gd', 'rb.gy', 't.ly', 'cutt.ly'],
+    showLinkFavicons: false,
+    showLinkDomains: false,
+    markFailedLinks: false,
+    // triggerProfiles default is set dynamically in loadSettings() based on platform
+};
+
+// Built-in profiles, using Command on macOS and Ctrl elsewhere as the modifier key
+function createDefaultTriggerProfiles(): TriggerProfile[] {
+    const modKeys: ModifierKeyConfig = { ...DEFAULT_MODIFIER_KEYS, [Platform.isMacOS ? 'meta' : 'ctrl']: true };
+    const base = { modifierKeys: { ...DEFAULT_MODIFIER_KEYS }, delay: 500, stillnessDelay: 0, closeOnModifierRelease: false, sticky: false };
+    return [
+        { ...base, id: 'hover', name: 'Hover', action: 'hover' },
+        { ...base, id: 'modifier-hover', name: 'Modifier + hover', action: 'hover', modifierKeys: modKeys, closeOnModifierRelease: true },
+        // Ctrl/Cmd + click already opens links in a new tab
+        { ...base, id: 'modifier-click', name: 'Click with modifier', action: 'click', modifierKeys: { ...DEFAULT_MODIFIER_KEYS, alt: true }, sticky: true },
+        { ...base, id: 'middle-click', name: 'Middle-click', action: 'middle-click', sticky: true },
+        { ...base, id: 'long-press', name: 'Long press', action: 'long-press', sticky: true },
+    ];
+}
+
+const LINK_SELECTOR = 'a.external-link, a[href^="http"], span.external-link, .cm-hmd-external-link, .cm-link .cm-underline, .cm-url, [data-href], [data-url]';
+
+const VIEW_TYPE_URL_PREVIEW = 'url-preview';
+
+// Size of the arrow pointing at the link, also the gap between link and popup
+const ARROW_SIZE = 8;
+
+const TOUCH_LONG_PRESS_DELAY = 500;
+const TOUCH_DOUBLE_TAP_INTERVAL = 300;
+// Finger or mouse movement that turns a press into a scroll or drag
+const TOUCH_MOVE_TOLERANCE = 10;
+// Swipe distance that dismisses a touch preview
+const TOUCH_SWIPE_DISTANCE = 80;
+// Share of the window height a bottom sheet may take
+const TOUCH_SHEET_HEIGHT = 0.7;
+
+// Parallel requests when checking all links in a note
+const LINK_CHECK_CONCURRENCY = 4;
+
+// Redirects followed before previewing a link, and the time allowed for the whole chain
+const REDIRECT_HOP_LIMIT = 5;
+const REDIRECT_TIMEOUT = 5000;
+
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 3;
+const ZOOM_STEP = 1.1;
+
+// Oldest zoom levels and scroll positions are dropped beyond this
+const MAX_ZOOM_LEVELS = 200;
+const MAX_SCROLL_POSITIONS = 200;
+
+// Oldest pinned preview bounds are dropped beyond this
+const MAX_PINNED_PREVIEWS = 100;
+
+// Oldest favicons and failed links are dropped beyond this
+const MAX_FAVICONS = 500;
+const MAX_FAILED_LINKS = 500;
+
+// Link annotations are rebuilt once typing pauses this long, in between they move with the text
+const LINK_ANNOTATION_REBUILD_DELAY = 500;
+
+// Rendered content that keeps its scroll position between previews
+const SCROLLABLE_CONTENT_SELECTOR = '.preview-card, .preview-local, .preview-readable';
+
+// Popup elements that aren't part of the rendered content
+const PREVIEW_CHROME_SELECTOR = '.preview-nav-bar, .preview-redirect, .preview-buttons, .preview-pin-titlebar, .preview-resize-handle, .preview-sheet-handle';
+
+// Content whose links the plugin handles itself, see linkClickAction
+const NAVIGABLE_CONTENT_SELECTOR = '.preview-card, .preview-readable, .preview-local';
+
+// Pinned panels stack below the hover popup (z-index 1000)
+const PINNED_PANEL_Z_INDEX = 500;
+
+const MIN_PANEL_SIZE = 150;
+
+// Features denied to previewed pages under the reduced and strict profiles
+const DENIED_FEATURES = ['autoplay', 'camera', 'microphone', 'geolocation', 'payment', 'usb', 'serial', 'bluetooth', 'display-capture']
+    .map(feature => `${feature} 'none'`)
+    .join('; ');
+
+const PRIVACY_PROFILES: Record<PrivacyProfile, PrivacyProfileConfig> = {
+    full: {
+        label: 'Full',
+        description: 'Pages load as in a browser',
+        icon: 'shield-off',
+    },
+    reduced: {
+        label: 'Reduced',
+        description: 'No referrer, autoplay, camera, microphone or location access',
+        icon: 'shield-half',
+        sandbox: 'allow-scripts allow-same-origin allow-forms allow-popups allow-popups-to-escape-sandbox',
+        referrerPolicy: 'no-referrer',
+        allow: DENIED_FEATURES,
+    },
+    strict: {
+        label: 'Strict',
+        description: 'Scripts disabled, no referrer, autoplay, camera, microphone or location access',
+        icon: 'shield',
+        sandbox: 'allow-same-origin allow-popups allow-popups-to-escape-sandbox',
+        referrerPolicy: 'no-referrer',
+        allow: DENIED_FEATURES,
+    },
+};
+
+const TRACKING_PARAMS = ['fbclid', 'gclid', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'mc_cid', 'mc_eid', 'igshid', 'yclid', 'twclid', '_hsenc', '_hsmi'];
+
+const TRACKING_PARAM_PREFIXES = ['utm_'];
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'bmp', 'avif'];
+
+// Extensions for downloaded images whose URL doesn't have one
+const IMAGE_TYPE_EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'image/svg+xml': 'svg',
+    'image/bmp': 'bmp',
+    'image/avif': 'avif',
+};
+
+const VIDEO_EXTENSIONS = ['mp4', 'webm', 'ogv', 'mov', 'mkv'];
+
+const AUDIO_EXTENSIONS = ['mp3', 'wav', 'ogg', 'm4a', 'flac', 'webm', 'opus'];
+
+const DEFAULT_DOMAIN_RULE: DomainRule = {
+    pattern: '',
+    previewMode: '',
+    maxWidth: 0,
+    maxHeight: 0,
+    disableScripts: false,
+};
+
+const DEFAULT_CUSTOM_ADAPTER: CustomAdapterRule = {
+    pattern: '',
+    rewrite: '',
+    cropTop: 0,
+    zoom: 1,
 };
 
+const BUILTIN_ADAPTERS: PreviewAdapter[] = [
+    {
+        id: 'github',
+        name: 'GitHub',
+        matches: (url) => url.hostname === 'github.com',
+        // Hide the sticky header and progress bar
+        cropTop: 68,
+    },
+    {
+        id: 'youtube',
+        name: 'YouTube',
+        matches: (url) => (/(^|\.)youtube\.com$/.test(url.hostname) && url.pathname === '/watch' && url.searchParams.has('v'))
+            || (url.hostname === 'youtu.be' && url.pathname.length > 1),
+        rewriteUrl: (url) => {
+            const id = url.hostname === 'youtu.be' ? url.pathname.slice(1) : url.searchParams.get('v') ?? '';
+            const embed = new URL(`https://www.youtube.com/embed/${encodeURIComponent(id)}`);
+            const start = parseInt(url.searchParams.get('t') ?? '', 10);
+            if (!isNaN(start)) {
+                embed.searchParams.set('start', String(start));
+            }
+            return embed.href;
+        },
+        naturalSize: { width: 640, height: 360 },
+    },
+    {
+        id: 'twitter',
+        name: 'Twitter / X',
+        matches: (url) => /^(www\.|mobile\.)?(twitter|x)\.com$/.test(url.hostname) && /^\/[^/]+\/status\/\d+/.test(url.pathname),
+        rewriteUrl: (url) => {
+            const id = /\/status\/(\d+)/.exec(url.pathname)?.[1] ?? '';
+            return `https://platform.twitter.com/embed/Tweet.html?id=${id}`;
+        },
+        naturalSize: { width: 550, height: 640 },
+    },
+    {
+        id: 'google-docs',
+        name: 'Google Docs, Sheets and Slides',
+        matches: (url) => url.hostname === 'docs.google.com' && /^\/(document|spreadsheets|presentation)\/d\/[^/]+/.test(url.pathname),
+        rewriteUrl: (url) => {
+            const base = /^\/(document|spreadsheets|presentation)\/d\/[^/]+/.exec(url.pathname)?.[0] ?? url.pathname;
+            return `https://docs.google.com${base}/preview`;
+        },
+    },
+    {
+        id: 'figma',
+        name: 'Figma',
+        matches: (url) => /(^|\.)figma\.com$/.test(url.hostname) && /^\/(file|design|proto|board)\//.test(url.pathname),
+        rewriteUrl: (url) => `https://www.figma.com/embed?embed_host=share&url=${encodeURIComponent(url.href)}`,
+    },
+    {
+        id: 'wikipedia',
+        name: 'Wikipedia',
+        matches: (url) => /^[a-z-]+\.wikipedia\.org$/.test(url.hostname),
+        // Mobile view fits the popup size better
+        rewriteUrl: (url) => {
+            const mobile = new URL(url.href);
+            mobile.hostname = url.hostname.replace('.wikipedia.org', '.m.wikipedia.org');
+            return mobile.href;
+        },
+    },
+];
+
+const LINK_SURFACES: LinkSurface[] = [
+    {
+        id: 'hover-popover',
+        name: 'Page previews',
+        description: "Links inside Obsidian's note hover previews",
+        selector: '.hover-popover',
+    },
+    {
+        id: 'canvas',
+        name: 'Canvas',
+        description: 'Link cards and links inside text cards',
+        selector: '.canvas-wrapper',
+        // Link cards are iframes, covered by a blocker until they're focused
+        linkSelector: '.canvas-node-label, .canvas-node-content-blocker',
+        extractUrl: (el, app) => {
+            const nodeEl = el.closest('.canvas-node');
+            if (!nodeEl) return null;
+
+            let url: string | null = null;
+            app.workspace.iterateAllLeaves(leaf => {
+                const nodes = (leaf.view as unknown as CanvasViewLike).canvas?.nodes;
+                if (url || typeof nodes?.values !== 'function' || !leaf.view.containerEl.contains(nodeEl)) return;
+                try {
+                    for (const node of nodes.values()) {
+                        if (node?.nodeEl === nodeEl && typeof node.url === 'string' && node.url) {
+                            url = node.url;
+                        }
+                    }
+                } catch {
+                    // Fall back to the DOM
+                }
+            });
+            return url;
+        },
+    },
+    {
+        id: 'bases',
+        name: 'Bases',
+        description: 'URL properties in Bases tables and cards',
+        selector: '.bases-view',
+        linkSelector: '.bases-td, .bases-cards-line',
+    },
+    {
+        id: 'properties',
+        name: 'Properties',
+        description: 'URLs in note properties (frontmatter)',
+        selector: '.metadata-container',
+        linkSelector: '.multi-select-pill-content, .metadata-input-longtext',
+    },
+    {
+        id: 'callouts',
+        name: 'Callouts',
+        description: 'Links inside callouts',
+        selector: '.callout, .cm-callout',
+        domOnly: true,
+    },
+    {
+        id: 'tables',
+        name: 'Tables',
+        description: 'Links inside Markdown tables',
+        selector: '.markdown-rendered table, .cm-table-widget',
+        domOnly: true,
+    },
+    {
+        id: 'editor',
+        name: 'Editor',
+        description: 'Links in source mode and live preview',
+        selector: '.cm-editor',
+    },
+    {
+        id: 'reading',
+        name: 'Reading view',
+        description: 'Links in notes in reading view',
+        selector: '.markdown-reading-view',
+    },
+    {
+        id: 'other',
+        name: 'Other views',
+        description: 'Links anywhere else, including views added by other plugins',
+        selector: 'body',
+    },
+];
+
+const TRIGGER_CONTEXTS: { id: TriggerContext, name: string, description: string }[] = [
+    { id: 'source', name: 'Source mode', description: 'Links in the editor in source mode' },
+    { id: 'live-preview', name: 'Live preview', description: 'Links in the editor in live preview' },
+    { id: 'reading', name: 'Reading view', description: 'Links in reading view and in page previews' },
+    { id: 'canvas', name: 'Canvas', description: 'Link cards and links inside text cards' },
+    { id: 'other', name: 'Other views', description: 'Links anywhere else, including Bases and views added by other plugins' },
+];
+
 export default class LinkPreviewPlugin extends Plugin {
     settings: LinkPreviewSettings;
     private activePreview?: {
         element: HTMLElement,
         cleanup: () => void,
-        link: HTMLElement
+        // Stops tracking the popup without closing it (used when pinning)
+        detach: () => void,
+        link: HTMLElement,
+        context: PreviewContext,
+        // Decides whether the popup is sticky and closes on key release, unset for touch previews
+        profile?: TriggerProfile
     };
+    private pinnedPanels: PinnedPreviewPanel[] = [];
+    private domainHint?: HTMLElement;
     private hoverTimeout?: number;
     private lastMouseX = 0;
     private lastMouseY = 0;
+    // Window the mouse coordinates belong to (main or a popout)
+    private lastMouseDocument: Document = document;
     private modifierState: ModifierKeyConfig = { meta: false, ctrl: false, alt: false, shift: false };
     private lastMovementTime = 0;
+    // Touch tracking: a pending long press (also with a mouse), the first tap of a double tap, and clicks to swallow
+    private longPress?: { element: HTMLElement, url: string, x: number, y: number, timer: number, profile?: TriggerProfile };
+    private pendingTap?: { element: HTMLElement, time: number };
+    // Set when a long press opened a preview, until its click arrives or the next press starts
+    private suppressClick = false;
+    private lastTouchTime = 0;
     private stillnessCheckTimeout?: number;
+    private previewCache = new PreviewCache(() => this.settings);
+    // Last position and size of pinned previews, by URL
+    private pinnedBounds = new LocalRecordStore<PanelBounds>(this.app, 'url-preview-pinned-previews', MAX_PINNED_PREVIEWS);
+    // Zoom level by domain and scroll offset by URL, see rememberZoomAndScroll
+    private zoomLevels = new LocalRecordStore<number>(this.app, 'url-preview-zoom-levels', MAX_ZOOM_LEVELS);
+    private scrollPositions = new LocalRecordStore<number>(this.app, 'url-preview-scroll-positions', MAX_SCROLL_POSITIONS);
+    // Favicon URL by domain, and when each link last failed to load by URL
+    private favicons = new LocalRecordStore<string>(this.app, 'url-preview-favicons', MAX_FAVICONS);
+    private failedLinks = new LocalRecordStore<number>(this.app, 'url-preview-failed-links', MAX_FAILED_LINKS);
+    // Hosts whose favicon failed to load this session
+    private missingFavicons = new Set<string>();
+    private registeredAdapters: PreviewAdapter[] = [];
+    private registeredRenderers: CustomPreviewRenderer[] = [];
+    readonly api: UrlPreviewApi = this.createApi();
+
+    private createApi(): UrlPreviewApi {
+        return {
+            showPreview: (url, anchor) => {
+                const normalized = this.normalizeUrl(url);
+                if (!normalized || this.getDomainPolicy(normalized).denied) return false;
+                this.cleanupActivePreview();
+                this.showPreview(anchor, normalized);
+                return true;
+            },
+            closePreview: () => this.cleanupActivePreview(),
+            registerAdapter: (adapter) => {
+                this.registeredAdapters.push(adapter);
+                this.clearCache();
+                return () => {
+                    this.registeredAdapters.remove(adapter);
+                    this.clearCache();
+                };
+            },
+            registerRenderer: (renderer) => {
+                this.registeredRenderers.push(renderer);
+                this.clearCache();
+                return () => {
+                    this.registeredRenderers.remove(renderer);
+                    this.clearCache();
+                };
+            },
+        };
+    }
 
     async onload() {
         await this.loadSettings();
@@ -68,13 +758,135 @@ export default class LinkPreviewPlugin extends Plugin {
         this.app.workspace.onLayoutReady(() => {
             this.registerGlobalHandler();
         });
+
+        this.registerEvent(
+            this.app.workspace.on('layout-change', () => this.evictClosedNotes())
+        );
         
+        this.registerView(VIEW_TYPE_URL_PREVIEW, (leaf) => new UrlPreviewView(leaf, this));
+
+        this.registerEditorExtension(this.createLinkAnnotationExtension());
+        this.registerMarkdownPostProcessor((el) => this.annotateRenderedLinks(el));
+
+        this.addCommand({
+            id: 'preview-link-under-cursor',
+            name: 'Preview link under cursor',
+            editorCheckCallback: (checking, editor, ctx) => {
+                const cm = this.getEditorView(editor);
+                const pos = editor.posToOffset(editor.getCursor());
+                const url = cm ? this.resolveLinkAtPos(cm.state, pos, ctx.file?.path) : null;
+                if (!cm || !url) return false;
+                if (!checking) {
+                    this.showPreviewAtPos(cm, pos, url);
+                }
+                return true;
+            },
+        });
+
+        this.addCommand({
+            id: 'preview-next-link',
+            name: 'Preview next link in note',
+            editorCheckCallback: (checking, editor, ctx) => this.previewAdjacentLink(checking, editor, 1, ctx.file?.path),
+        });
+
+        this.addCommand({
+            id: 'preview-previous-link',
+            name: 'Preview previous link in note',
+            editorCheckCallback: (checking, editor, ctx) => this.previewAdjacentLink(checking, editor, -1, ctx.file?.path),
+        });
+
+        this.addCommand({
+            id: 'close-all-previews',
+            name: 'Close all previews',
+            checkCallback: (checking) => {
+                if (!this.activePreview && this.pinnedPanels.length === 0) return false;
+                if (!checking) {
+                    this.cleanupActivePreview();
+                    this.closeAllPinnedPanels();
+                }
+                return true;
+            },
+        });
+
+        this.addCommand({
+            id: 'toggle-preview-on-hover',
+            name: 'Toggle preview on hover',
+            callback: async () => {
+                this.settings.hoverEnabled = !this.settings.hoverEnabled;
+                await this.saveSettings();
+                if (!this.settings.hoverEnabled) {
+                    this.cleanupActivePreview();
+                }
+                new Notice(this.settings.hoverEnabled ? 'Preview on hover enabled' : 'Preview on hover disabled');
+            },
+        });
+
+        this.addCommand({
+            id: 'pin-current-preview',
+            name: 'Pin current preview',
+            checkCallback: (checking) => {
+                if (!this.activePreview) return false;
+                if (!checking) {
+                    this.pinActivePreview();
+                }
+                return true;
+            },
+        });
+
+        this.addCommand({
+            id: 'close-all-pinned-previews',
+            name: 'Close all pinned previews',
+            checkCallback: (checking) => {
+                if (this.pinnedPanels.length === 0) return false;
+                if (!checking) {
+                    this.closeAllPinnedPanels();
+                }
+                return true;
+            },
+        });
+
+        this.addCommand({
+            id: 'check-links-in-note',
+            name: 'Check links in current note',
+            editorCheckCallback: (checking, editor, ctx) => {
+                const cm = this.getEditorView(editor);
+                // Only web links can be checked
+                if (!cm || !editor.getValue().includes('://')) return false;
+                if (!checking) {
+                    const urls = this.collectLinks(cm.state, ctx.file?.path).map(link => link.url);
+                    const webUrls = [...new Set(urls)].filter(url => this.getLinkKind(url) === 'web');
+                    if (webUrls.length === 0) {
+                        new Notice('No web links in this note');
+                        return true;
+                    }
+                    new LinkHealthModal(this.app, webUrls, {
+                        checkLink: (url) => this.checkLink(url),
+                        onUpdateRedirect: (from, to) => this.replaceUrlInEditor(editor, from, to),
+                        onMarkDead: (dead) => this.markDeadLinks(editor, dead, ctx.file?.path),
+                    }).open();
+                }
+                return true;
+            },
+        });
+
         this.addSettingTab(new LinkPreviewSettingTab(this.app, this));
     }
 
     private registerGlobalHandler() {
         const handleWindow = (doc: Document) => {
             this.registerDomEvent(doc, 'mouseover', (e: MouseEvent) => this.handleLinkHover(e));
+            // A new press, so an earlier long press that never produced a click no longer swallows one
+            this.registerDomEvent(doc, 'pointerdown', () => { this.suppressClick = false; }, { capture: true });
+            this.registerDomEvent(doc, 'pointerdown', (e: PointerEvent) => this.handleTouchStart(e));
+            this.registerDomEvent(doc, 'pointerdown', (e: PointerEvent) => this.handleMousePress(e));
+            this.registerDomEvent(doc, 'pointermove', (e: PointerEvent) => this.handlePointerMove(e));
+            this.registerDomEvent(doc, 'pointerup', () => this.cancelLongPress());
+            this.registerDomEvent(doc, 'pointercancel', () => this.cancelLongPress());
+            this.registerDomEvent(doc, 'contextmenu', (e: MouseEvent) => this.handleTouchContextMenu(e), { capture: true });
+            this.registerDomEvent(doc, 'click', (e: MouseEvent) => this.handleTouchClick(e), { capture: true });
+            // Capture, so these run before the link's own handlers
+            this.registerDomEvent(doc, 'click', (e: MouseEvent) => this.handleTriggerClick(e), { capture: true });
+            this.registerDomEvent(doc, 'auxclick', (e: MouseEvent) => this.handleTriggerClick(e), { capture: true });
             this.registerDomEvent(doc, 'mousemove', (e: MouseEvent) => {
                 // Track mouse stillness - only update time if mouse moved significantly (>2px)
                 const dx = Math.abs(e.clientX - this.lastMouseX);
@@ -84,25 +896,22 @@ export default class LinkPreviewPlugin extends Plugin {
                 }
                 this.lastMouseX = e.clientX;
                 this.lastMouseY = e.clientY;
+                this.lastMouseDocument = doc;
             });
             this.registerDomEvent(doc, 'keydown', (e: KeyboardEvent) => {
-                if (e.key === 'Escape' && this.activePreview) {
-                    this.cleanupActivePreview();
+                if (e.key === 'Escape') {
+                    this.closeInnermostPreview();
                 }
                 // Update modifier state
                 this.updateModifierState(e);
                 // Handle modifier key press while hovering over link
-                if (this.settings.requireModifierKey && this.isModifierKeyEvent(e)) {
-                    this.handleModifierKeyDown();
-                }
+                this.handleModifierKeyDown(e);
             });
             this.registerDomEvent(doc, 'keyup', (e: KeyboardEvent) => {
                 // Update modifier state
                 this.updateModifierState(e);
                 // Close preview when any required modifier key is released
-                if (this.settings.requireModifierKey && this.isModifierKeyEvent(e)) {
-                    this.handleModifierKeyUp();
-                }
+                this.handleModifierKeyUp(e);
             });
             // Reset modifier state on window blur
             this.registerDomEvent(doc.defaultView ?? window, 'blur', () => {
@@ -124,16 +933,23 @@ export default class LinkPreviewPlugin extends Plugin {
     }
 
     private handleLinkHover(event: MouseEvent) {
-        const target = event.target as Element | null;
-        if (!(target instanceof Element)) return;
+        // instanceOf also matches elements of popout windows, which have their own Element
+        const target = event.targetNode;
+        if (!target?.instanceOf(Element)) return;
 
-        // Skip if event is from inside the active preview (prevents flickering)
-        if (this.activePreview?.element.contains(target)) {
+        // Touches emulate mouse events, which would open a hover preview on every tap
+        if (this.isFromTouch(event)) return;
+
+        // Links in cards and readable text open nested previews, other events inside a preview are skipped (prevents flickering)
+        const parent = this.getPreviewContaining(target);
+        if (parent) {
+            this.handleNestedLinkHover(parent, target, event);
             return;
         }
 
-        // Check for modifier key requirement
-        if (this.settings.requireModifierKey && !this.isModifierKeyPressed(event)) {
+        // Check the trigger and modifier keys for where the link is
+        const profile = this.getTriggerProfile(target);
+        if (profile?.action !== 'hover' || !this.isModifierKeyPressed(profile, event)) {
             return;
         }
 
@@ -167,20 +983,20 @@ export default class LinkPreviewPlugin extends Plugin {
 
         // Set timeout for showing preview
         this.hoverTimeout = window.setTimeout(() => {
-            this.tryShowPreview(linkElement, url);
-        }, this.settings.hoverDelay);
+            this.tryShowPreview(linkElement, url, profile);
+        }, this.getHoverDelay(profile, url));
 
-        // Add mouse leave listener to target
-        const handleMouseLeave = (e: MouseEvent) => {
-            // Skip cleanup timer if sticky popup is enabled
-            if (this.settings.stickyPopup) {
-                linkElement.removeEventListener('mouseleave', handleMouseLeave);
-                return;
-            }
+        this.closeOnLinkLeave(linkElement, profile);
+    }
+
+    private closeOnLinkLeave(linkElement: HTMLElement, profile: TriggerProfile) {
+        // Skip cleanup timer if sticky popup is enabled
+        if (profile.sticky) return;
 
+        const handleMouseLeave = (e: MouseEvent) => {
             // Check if mouse moved to the preview
             const toElement = e.relatedTarget as HTMLElement | null;
-            if (toElement && this.activePreview?.element.contains(toElement)) return;
+            if (toElement && this.isInsideActivePreview(toElement)) return;
 
             this.startCleanupTimer();
             linkElement.removeEventListener('mouseleave', handleMouseLeave);
@@ -189,15 +1005,240 @@ export default class LinkPreviewPlugin extends Plugin {
         linkElement.addEventListener('mouseleave', handleMouseLeave);
     }
 
-    private tryShowPreview(linkElement: HTMLElement, url: string) {
+    private handleNestedLinkHover(parent: PreviewContext, target: Element, event: MouseEvent) {
+        const profile = this.getTriggerProfile(target);
+        if (profile?.action !== 'hover' || !target.closest(NAVIGABLE_CONTENT_SELECTOR)) return;
+        if (!this.isModifierKeyPressed(profile, event)) return;
+
+        const link = target.closest<HTMLElement>('a[href]');
+        // Moving between elements inside the link
+        if (!link || link.contains(event.relatedTarget as Node | null)) return;
+        const url = this.normalizeUrl(link.getAttribute('href') ?? '');
+        if (!url || this.getLinkKind(url) !== 'web' || this.getDomainPolicy(url).denied) return;
+        // The card title links to the page the popup already shows
+        if (isSameDestination(url, parent.url) || parent.child?.url === url) return;
+
+        window.clearTimeout(this.hoverTimeout);
+        this.hoverTimeout = window.setTimeout(() => {
+            this.hoverTimeout = undefined;
+            if (link.isConnected) this.openNestedPreview(parent, link, url);
+        }, this.getHoverDelay(profile, url));
+
+        link.addEventListener('mouseleave', () => {
+            window.clearTimeout(this.hoverTimeout);
+            this.hoverTimeout = undefined;
+            this.startNestedCleanupTimer();
+        }, { once: true });
+    }
+
+    // Double tap is mobile only: on a touch screen computer the first tap would open the link in the browser
+    private getTouchTrigger(): TouchTrigger {
+        const trigger = this.settings.touchTrigger;
+        return trigger === 'double-tap' && !Platform.isMobile ? 'long-press' : trigger;
+    }
+
+    private handleTouchStart(e: PointerEvent) {
+        if (e.pointerType !== 'touch') return;
+        this.lastTouchTime = Date.now();
+
+        const target = e.targetNode;
+        if (this.getTouchTrigger() !== 'long-press' || !target?.instanceOf(Element)) return;
+        if (this.getPreviewContaining(target)) return;
+
+        const linkInfo = this.findLinkElement(target, null);
+        if (!linkInfo) return;
+
+        this.cancelLongPress();
+        this.longPress = {
+            ...linkInfo,
+            x: e.clientX,
+            y: e.clientY,
+            timer: window.setTimeout(() => this.completeLongPress(), TOUCH_LONG_PRESS_DELAY),
+        };
+    }
+
+    private handlePointerMove(e: PointerEvent) {
+        if (!this.longPress) return;
+        // Scrolling or dragging, not pressing
+        if (Math.hypot(e.clientX - this.longPress.x, e.clientY - this.longPress.y) > TOUCH_MOVE_TOLERANCE) {
+            this.cancelLongPress();
+        }
+    }
+
+    private cancelLongPress() {
+        if (this.longPress) {
+            window.clearTimeout(this.longPress.timer);
+            this.longPress = undefined;
+        }
+    }
+
+    private completeLongPress() {
+        const press = this.longPress;
+        if (!press) return;
+        this.cancelLongPress();
+
+        // Lifting the finger would otherwise open the link
+        this.suppressClick = true;
+        if (press.profile) {
+            this.showTriggeredPreview(press.element, press.url, press.profile);
+        } else {
+            this.showTouchPreview(press.element, press.url);
+        }
+    }
+
+    // Mobile reports a long press as a context menu, show the preview instead of the menu
+    private handleTouchContextMenu(e: MouseEvent) {
+        if (!this.longPress || this.longPress.profile) return;
+        e.preventDefault();
+        e.stopPropagation();
+        this.completeLongPress();
+    }
+
+    /**
+     * Swallows the click after a long press, and implements double tap: the first tap on a
+     * link goes through as usual, a second one on the same link soon after opens the preview.
+     */
+    private handleTouchClick(e: MouseEvent) {
+        if (this.suppressClick) {
+            this.suppressClick = false;
+            e.preventDefault();
+            e.stopPropagation();
+            return;
+        }
+
+        const target = e.targetNode;
+        if (this.getTouchTrigger() !== 'double-tap' || !this.isFromTouch(e) || !target?.instanceOf(Element)) return;
+        if (this.getPreviewContaining(target)) return;
+
+        const linkInfo = this.findLinkElement(target, null);
+        if (!linkInfo) return;
+
+        const pending = this.pendingTap;
+        this.pendingTap = undefined;
+        if (pending?.element === linkInfo.element && Date.now() - pending.time < TOUCH_DOUBLE_TAP_INTERVAL) {
+            e.preventDefault();
+            e.stopPropagation();
+            this.showTouchPreview(linkInfo.element, linkInfo.url);
+            return;
+        }
+        this.pendingTap = { element: linkInfo.element, time: Date.now() };
+    }
+
+    // Long press and middle click with a mouse or pen, for the profiles using them
+    private handleMousePress(e: PointerEvent) {
+        const target = e.targetNode;
+        if (e.pointerType === 'touch' || !target?.instanceOf(Element)) return;
+        if (this.getPreviewContaining(target)) return;
+
+        const profile = this.getTriggerProfile(target);
+        if (!profile || !this.isModifierKeyPressed(profile, e)) return;
+        const isMiddleClick = profile.action === 'middle-click' && e.button === 1;
+        const isLongPress = profile.action === 'long-press' && e.button === 0;
+        if (!isMiddleClick && !isLongPress) return;
+
+        const linkInfo = this.findLinkElement(target, null);
+        if (!linkInfo) return;
+
+        if (isMiddleClick) {
+            // Prevents autoscroll, pasting, and the editor opening the link in a new tab
+            e.preventDefault();
+            return;
+        }
+
+        this.cancelLongPress();
+        this.longPress = {
+            ...linkInfo,
+            x: e.clientX,
+            y: e.clientY,
+            profile,
+            timer: window.setTimeout(() => this.completeLongPress(), profile.delay),
+        };
+    }
+
+    // Click and middle click profiles open the preview instead of the link
+    private handleTriggerClick(e: MouseEvent) {
+        const target = e.targetNode;
+        // Already handled as a touch
+        if (e.defaultPrevented || this.isFromTouch(e) || !target?.instanceOf(Element)) return;
+        if (this.getPreviewContaining(target)) return;
+
+        const action: TriggerAction | undefined = e.button === 0 ? 'click' : e.button === 1 ? 'middle-click' : undefined;
+        const profile = this.getTriggerProfile(target);
+        if (!action || profile?.action !== action || !this.isModifierKeyPressed(profile, e)) return;
+
+        const linkInfo = this.findLinkElement(target, null);
+        if (!linkInfo) return;
+
+        e.preventDefault();
+        e.stopPropagation();
+        this.showTriggeredPreview(linkInfo.element, linkInfo.url, profile);
+    }
+
+    // Clicking or pressing the link of the open preview again closes it
+    private showTriggeredPreview(link: HTMLElement, url: string, profile: TriggerProfile) {
+        const isOpen = this.activePreview?.link === link;
+        this.cleanupActivePreview();
+        if (isOpen) return;
+
+        this.showPreview(link, url);
+        this.closeOnLinkLeave(link, profile);
+    }
+
+    /**
+     * Whether a mouse event comes from a touch rather than a mouse, trackpad or pen, which
+     * mobile devices can have too. Chromium says so, elsewhere a touch just started.
+     */
+    private isFromTouch(e: MouseEvent): boolean {
+        const capabilities = (e as MouseEvent & { sourceCapabilities?: { firesTouchEvents: boolean } | null }).sourceCapabilities;
+        if (capabilities) return capabilities.firesTouchEvents;
+        return (e.instanceOf(PointerEvent) && e.pointerType === 'touch')
+            || Date.now() - this.lastTouchTime < 1000;
+    }
+
+    private showTouchPreview(link: HTMLElement, url: string) {
+        this.cleanupActivePreview();
+        this.showPreview(link, url, undefined, true);
+    }
+
+    // Swiping the handle down dismisses a touch preview
+    private addSwipeHandle(previewEl: HTMLElement) {
+        const handle = previewEl.createDiv('preview-sheet-handle');
+        handle.addEventListener('pointerdown', (e: PointerEvent) => {
+            const startY = e.clientY;
+            let offset = 0;
+            handle.setPointerCapture(e.pointerId);
+            previewEl.addClass('is-swiping');
+
+            const onMove = (move: PointerEvent) => {
+                offset = Math.max(0, move.clientY - startY);
+                previewEl.setCssProps({ '--preview-swipe-offset': `${offset}px` });
+            };
+            const onUp = () => {
+                handle.removeEventListener('pointermove', onMove);
+                handle.removeEventListener('pointerup', onUp);
+                handle.removeEventListener('pointercancel', onUp);
+                previewEl.removeClass('is-swiping');
+                previewEl.setCssProps({ '--preview-swipe-offset': '0px' });
+                if (offset > TOUCH_SWIPE_DISTANCE && this.activePreview?.element === previewEl) {
+                    this.cleanupActivePreview();
+                }
+            };
+
+            handle.addEventListener('pointermove', onMove);
+            handle.addEventListener('pointerup', onUp);
+            handle.addEventListener('pointercancel', onUp);
+        });
+    }
+
+    private tryShowPreview(linkElement: HTMLElement, url: string, profile: TriggerProfile) {
         // Check mouse stillness if delay is configured
-        if (this.settings.mouseStillnessDelay > 0) {
+        if (profile.stillnessDelay > 0) {
             const timeSinceMovement = Date.now() - this.lastMovementTime;
-            if (timeSinceMovement < this.settings.mouseStillnessDelay) {
+            if (timeSinceMovement < profile.stillnessDelay) {
                 // Mouse hasn't been still long enough, reschedule check
-                const remainingTime = this.settings.mouseStillnessDelay - timeSinceMovement;
+                const remainingTime = profile.stillnessDelay - timeSinceMovement;
                 this.stillnessCheckTimeout = window.setTimeout(() => {
-                    this.tryShowPreview(linkElement, url);
+                    this.tryShowPreview(linkElement, url, profile);
                 }, Math.min(remainingTime, 50)); // Poll at most every 50ms
                 return;
             }
@@ -205,659 +1246,4547 @@ export default class LinkPreviewPlugin extends Plugin {
         this.showPreview(linkElement, url);
     }
 
-    private showPreview(link: HTMLElement, url: string) {
-        const rect = link.getBoundingClientRect();
-        const previewEl = this.createPreviewElement(rect);
+    /**
+     * `anchorRect` overrides the link's bounds, e.g. to anchor keyboard previews at the cursor.
+     * Touch previews use the touch layout and close on a tap outside.
+     */
+    private showPreview(link: HTMLElement, url: string, anchorRect?: DOMRect, touch = false) {
+        const rect = anchorRect ?? link.getBoundingClientRect();
+        // Popout windows have their own document, the popup must open in the link's window
+        const doc = link.ownerDocument;
 
-        if (this.settings.showOpenInBrowser || this.settings.showCloseButton) {
-            this.createButtons(previewEl, url);
+        if (this.getDomainPolicy(url).denied) {
+            this.showDomainDeniedHint(rect, doc);
+            return;
         }
 
-        const wrapper = previewEl.createDiv('preview-iframe-wrapper');
+        const profile = touch ? undefined : this.getTriggerProfile(link);
+        const context = this.takeOrCreatePreview(url, doc);
+        const previewEl = context.previewEl;
+        context.sourcePath = context.sourcePath ?? this.getSourcePath(link);
+        context.linkText = link.textContent ?? undefined;
 
-        // GitHub-specific: add class to enable header cropping
-        if (url.includes('github.com')) {
-            wrapper.addClass('github-preview');
+        context.anchorRect = rect;
+        context.touchLayout = touch ? this.settings.touchLayout : undefined;
+        previewEl.toggleClass('is-touch', touch);
+        previewEl.toggleClass('is-bottom-sheet', context.touchLayout === 'sheet');
+        if (touch && !previewEl.querySelector('.preview-sheet-handle')) {
+            this.addSwipeHandle(previewEl);
         }
+        if (!touch) {
+            context.arrowEl = doc.body.createDiv('hover-popup-arrow');
+        }
+        this.positionPreviewElement(context, rect);
+        previewEl.removeClass('is-cached');
 
-        const loading = previewEl.createDiv('preview-loading');
-        loading.addClass('loading-spinner');
-        
-        const iframe = createEl('iframe', {
-            attr: {
-                src: url
-            }
-        });
-        
-        wrapper.appendChild(iframe);
-
-        const cleanup = () => {
-            previewEl.remove();
-            this.activePreview = undefined;
+        const removeArrow = () => {
+            context.arrowEl?.remove();
+            context.arrowEl = undefined;
         };
-
-        iframe.onload = () => {
-            // Small delay to let page render before showing
-            setTimeout(() => {
-                iframe.addClass('is-loaded');
-                loading.remove();  // Remove entirely to stop infinite animation
-            }, 50);
+        const resetTouch = () => {
+            context.touchLayout = undefined;
+            previewEl.removeClass('is-touch', 'is-bottom-sheet');
         };
-
-        iframe.onerror = () => {
-            loading.textContent = 'Failed to load preview';
+        const cleanup = () => {
+            removeArrow();
+            resetTouch();
+            this.releasePreview(context);
+            this.activePreview = undefined;
+            this.app.workspace.trigger('url-preview:close', context.url, previewEl);
         };
 
-        // Add preview hover handlers
-        previewEl.addEventListener('mouseenter', () => {
-            if (this.cleanupTimeout) {
-                window.clearTimeout(this.cleanupTimeout);
-                this.cleanupTimeout = undefined;
-            }
-        });
-
-        previewEl.addEventListener('mouseleave', () => {
-            if (!this.settings.stickyPopup) {
-                this.startCleanupTimer();
-            }
-        });
-
-        // Add click-outside handler for sticky popup mode
+        // Add click-outside handler for sticky popup mode and touch previews
         let clickOutsideHandler: ((e: MouseEvent) => void) | undefined;
-        if (this.settings.stickyPopup) {
+        if (profile?.sticky || touch) {
             clickOutsideHandler = (e: MouseEvent) => {
                 const target = e.target as Element;
-                if (!previewEl.contains(target) && !link.contains(target)) {
+                if (!this.isInsideActivePreview(target) && !link.contains(target)) {
                     this.cleanupActivePreview();
                 }
             };
             // Delay adding listener to avoid immediate trigger from the click that might have opened it
             setTimeout(() => {
-                document.addEventListener('click', clickOutsideHandler!);
+                doc.addEventListener('click', clickOutsideHandler!);
             }, 0);
         }
 
         // Update cleanup to remove click handler
         const originalCleanup = cleanup;
-        const cleanupWithClickHandler = () => {
+        const removeClickHandler = () => {
             if (clickOutsideHandler) {
-                document.removeEventListener('click', clickOutsideHandler);
+                doc.removeEventListener('click', clickOutsideHandler);
             }
+        };
+        const cleanupWithClickHandler = () => {
+            removeClickHandler();
             originalCleanup();
         };
 
-        document.body.appendChild(previewEl);
-        this.activePreview = { element: previewEl, cleanup: cleanupWithClickHandler, link };
-    }
-
-    private cleanupTimeout?: number;
+        const detach = () => {
+            removeClickHandler();
+            removeArrow();
+            resetTouch();
+        };
 
-    private startCleanupTimer() {
-        if (this.cleanupTimeout) {
-            window.clearTimeout(this.cleanupTimeout);
-        }
-        this.cleanupTimeout = window.setTimeout(() => {
-            // Before cleanup, verify mouse isn't over preview OR the original link
-            if (this.activePreview && this.isMouseOverPreviewOrLink()) {
-                this.cleanupTimeout = undefined;
-                return;
-            }
-            this.cleanupActivePreview();
-            this.cleanupTimeout = undefined;
-        }, 300);
+        this.activePreview = { element: previewEl, cleanup: cleanupWithClickHandler, detach, link, context, profile };
+        this.app.workspace.trigger('url-preview:open', url, previewEl);
     }
 
-    private isMouseOverPreviewOrLink(): boolean {
-        if (!this.activePreview) return false;
-
-        // Check preview bounds
-        const previewRect = this.activePreview.element.getBoundingClientRect();
-        if (this.lastMouseX >= previewRect.left &&
-            this.lastMouseX <= previewRect.right &&
-            this.lastMouseY >= previewRect.top &&
-            this.lastMouseY <= previewRect.bottom) {
-            return true;
-        }
-
-        // Check original link bounds
-        const linkRect = this.activePreview.link.getBoundingClientRect();
-        if (this.lastMouseX >= linkRect.left &&
-            this.lastMouseX <= linkRect.right &&
-            this.lastMouseY >= linkRect.top &&
-            this.lastMouseY <= linkRect.bottom) {
-            return true;
+    // Reuses a cached popup for `url` when there is one in the same window
+    private takeOrCreatePreview(url: string, doc: Document): PreviewContext {
+        const cached = this.previewCache.take(url);
+        if (cached && cached.previewEl.ownerDocument === doc) {
+            // A new hover starts a new history
+            cached.history = [cached.url];
+            cached.historyIndex = 0;
+            this.updateNavigationBar(cached);
+            return cached;
         }
-
-        return false;
+        // Moving the popup to another window would reload it anyway
+        if (cached) destroyPreview(cached);
+        return this.createPreview(url, doc);
     }
 
-    private cleanupActivePreview() {
-        if (this.activePreview) {
-            this.activePreview.cleanup();
-            this.activePreview = undefined;
-        }
-        if (this.hoverTimeout) {
-            window.clearTimeout(this.hoverTimeout);
-            this.hoverTimeout = undefined;
-        }
-        if (this.cleanupTimeout) {
-            window.clearTimeout(this.cleanupTimeout);
-            this.cleanupTimeout = undefined;
-        }
-        if (this.stillnessCheckTimeout) {
-            window.clearTimeout(this.stillnessCheckTimeout);
-            this.stillnessCheckTimeout = undefined;
-        }
+    private createPreviewContext(previewEl: HTMLElement, url: string): PreviewContext {
+        const component = new Component();
+        component.load();
+        return { previewEl, ...this.getPreviewTarget(url), component, generation: 0, history: [url], historyIndex: 0 };
     }
 
-    private isModifierKeyPressed(event: MouseEvent): boolean {
-        const keys = this.settings.modifierKeys;
-        // Check if ALL required modifiers are pressed
-        if (keys.meta && !event.metaKey) return false;
-        if (keys.ctrl && !event.ctrlKey) return false;
-        if (keys.alt && !event.altKey) return false;
-        if (keys.shift && !event.shiftKey) return false;
-        // At least one modifier must be required
-        return keys.meta || keys.ctrl || keys.alt || keys.shift;
+    // The parts of a preview context that depend on the URL shown
+    private getPreviewTarget(url: string): Pick<PreviewContext, 'url' | 'previewUrl' | 'adapter' | 'domainRule' | 'zoom'> {
+        const { adapter, url: adaptedUrl } = this.resolveAdapter(url);
+        const previewUrl = this.getRequestUrl(adaptedUrl);
+        const domainRule = this.getDomainPolicy(url).rule;
+        const zoom = this.settings.rememberZoomAndScroll ? this.zoomLevels.get(this.getZoomKey(url)) ?? 1 : 1;
+        return { url, previewUrl, adapter, domainRule, zoom };
     }
 
-    private isModifierKeyEvent(event: KeyboardEvent): boolean {
-        const keys = this.settings.modifierKeys;
-        // Return true if any required modifier key is pressed or released
-        if (keys.meta && event.key === 'Meta') return true;
-        if (keys.ctrl && event.key === 'Control') return true;
-        if (keys.alt && event.key === 'Alt') return true;
-        if (keys.shift && event.key === 'Shift') return true;
-        return false;
+    // Every request for a link goes through here, so tracking parameters are never sent
+    private getRequestUrl(url: string): string {
+        return this.settings.stripTrackingParams ? this.stripTrackingParams(url) : url;
     }
 
-    private areAllModifiersPressed(): boolean {
-        const keys = this.settings.modifierKeys;
-        // Check if ALL required modifiers are currently pressed (using tracked state)
-        if (keys.meta && !this.modifierState.meta) return false;
-        if (keys.ctrl && !this.modifierState.ctrl) return false;
-        if (keys.alt && !this.modifierState.alt) return false;
-        if (keys.shift && !this.modifierState.shift) return false;
-        // At least one modifier must be required
-        return keys.meta || keys.ctrl || keys.alt || keys.shift;
+    private request(request: RequestUrlParam): Promise<RequestUrlResponse> {
+        return requestUrl({ ...request, url: this.getRequestUrl(request.url) });
     }
 
-    private handleModifierKeyDown() {
-        // If already showing a preview, do nothing
-        if (this.activePreview) return;
-
-        // Check if ALL required modifiers are now pressed
-        if (!this.areAllModifiersPressed()) return;
-
-        // Find element under cursor
-        const elementUnderCursor = document.elementFromPoint(this.lastMouseX, this.lastMouseY);
-        if (!elementUnderCursor) return;
+    private stripTrackingParams(url: string): string {
+        let parsed: URL;
+        try {
+            parsed = new URL(url);
+        } catch {
+            return url;
+        }
 
-        const linkInfo = this.findLinkElement(elementUnderCursor, null);
-        if (linkInfo) {
-            // Clear any existing timeout and show preview after delay
-            if (this.hoverTimeout) {
-                window.clearTimeout(this.hoverTimeout);
+        for (const name of Array.from(parsed.searchParams.keys())) {
+            const lower = name.toLowerCase();
+            if (TRACKING_PARAMS.includes(lower) || TRACKING_PARAM_PREFIXES.some(prefix => lower.startsWith(prefix))) {
+                parsed.searchParams.delete(name);
             }
-            this.hoverTimeout = window.setTimeout(() => {
-                this.tryShowPreview(linkInfo.element, linkInfo.url);
-            }, this.settings.hoverDelay);
         }
+        return parsed.href;
     }
 
-    private handleModifierKeyUp() {
-        // Close preview when any required modifier key is released (unless sticky popup is enabled)
-        if (this.settings.closeOnModifierRelease && !this.settings.stickyPopup && !this.areAllModifiersPressed()) {
-            this.cleanupActivePreview();
-        }
+    // Domain rules override site adapters, which override the default mode
+    private getPreviewMode(context: PreviewContext): PreviewMode {
+        return context.domainRule?.previewMode || context.adapter?.renderer || this.settings.previewMode;
     }
 
-    async loadSettings() {
-        const loaded = (await this.loadData()) as (Partial<LinkPreviewSettings> & LegacyLinkPreviewSettings) | null;
-
-        // Create platform-aware default modifier keys
-        const platformDefaultKeys: ModifierKeyConfig = {
-            ...DEFAULT_MODIFIER_KEYS,
-            [Platform.isMacOS ? 'meta' : 'ctrl']: true,
-        };
+    private getHoverDelay(profile: TriggerProfile, url: string): number {
+        return this.getDomainPolicy(url).rule?.hoverDelay ?? profile.delay;
+    }
 
-        let modifierKeys: ModifierKeyConfig;
+    /**
+     * Applies the allowlist, denylist and per-domain rules to a URL. The denylist wins
+     * over the allowlist; an empty allowlist allows every domain.
+     */
+    private getDomainPolicy(url: string): { denied: boolean, rule?: DomainRule } {
+        if (this.getLinkKind(url) !== 'web') {
+            return { denied: false };
+        }
 
-        if (loaded?.modifierKeys) {
-            // New format exists, use it
-            modifierKeys = loaded.modifierKeys;
-        } else if (loaded?.modifierKey) {
-            // Migrate from old single key format
-            modifierKeys = { ...DEFAULT_MODIFIER_KEYS, [loaded.modifierKey]: true };
-        } else {
-            // Fresh install, use platform default
-            modifierKeys = platformDefaultKeys;
+        let hostname: string;
+        try {
+            hostname = new URL(url).hostname;
+        } catch {
+            return { denied: false };
         }
 
-        this.settings = {
-            ...DEFAULT_SETTINGS,
-            ...loaded,
-            modifierKeys,
-        };
+        const { allowedDomains, deniedDomains, domainRules } = this.settings;
+        const denied = deniedDomains.some(pattern => this.matchesDomain(hostname, pattern))
+            || (allowedDomains.length > 0 && !allowedDomains.some(pattern => this.matchesDomain(hostname, pattern)));
+        const rule = domainRules.find(r => this.matchesDomain(hostname, r.pattern));
+        return { denied, rule };
+    }
 
-        // Clean up legacy field if present
-        if ('modifierKey' in this.settings) {
-            delete (this.settings as LinkPreviewSettings & LegacyLinkPreviewSettings).modifierKey;
-            await this.saveSettings();
+    /**
+     * Matches a hostname against a glob pattern where `*` matches any characters.
+     * Patterns without a wildcard also match subdomains (`example.com` matches `www.example.com`).
+     */
+    private matchesDomain(hostname: string, pattern: string): boolean {
+        const glob = pattern.trim().toLowerCase();
+        if (!glob) return false;
+
+        const host = hostname.toLowerCase();
+        if (!glob.includes('*')) {
+            return host === glob || host.endsWith(`.${glob}`);
         }
-    }
 
-    async saveSettings() {
-        await this.saveData(this.settings);
+        const regex = new RegExp(`^${glob.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+        return regex.test(host);
     }
 
-    onunload() {
-        this.cleanupActivePreview();
-    }
+    private showDomainDeniedHint(rect: DOMRect, doc: Document) {
+        this.domainHint?.remove();
 
-    private createPreviewElement(rect: DOMRect): HTMLElement {
-        const el = createEl('div', { cls: 'hover-popup' });
-        
-        const windowSize = {
-            width: window.innerWidth,
-            height: window.innerHeight
-        };
-        
-        const bounds = this.calculatePreviewBounds(rect, windowSize);
-        
-        el.setCssStyles({
-            left: `${bounds.left}px`,
-            top: `${bounds.top}px`,
-            width: `${bounds.width}px`,
-            height: `${bounds.height}px`,
+        const hint = createDiv({ cls: 'preview-domain-hint', text: 'Preview disabled for this domain' });
+        hint.setCssStyles({
+            left: `${Math.max(5, rect.left)}px`,
+            top: `${rect.bottom + 5}px`,
         });
-        
-        return el;
+        doc.body.appendChild(hint);
+        this.domainHint = hint;
     }
 
-    private createButtons(container: HTMLElement, url: string) {
-        const buttons = container.createDiv('preview-buttons');
+    /**
+     * Builds a popup and starts loading it. The popup is attached right away, so callers
+     * that aren't showing it yet (prefetch) must hide it first.
+     */
+    private createPreview(url: string, doc: Document = document): PreviewContext {
+        const previewEl = this.createPreviewElement();
+        const context = this.createPreviewContext(previewEl, url);
 
-        if (this.settings.showOpenInBrowser) {
-            const openBtn = buttons.createEl('button', { cls: 'clickable-icon' });
-            setIcon(openBtn, 'external-link');
-            setTooltip(openBtn, 'Open in external browser');
-            openBtn.addEventListener('click', (e) => {
-                e.stopPropagation();
-                window.open(url);
-            });
+        if (this.settings.showNavigationBar) {
+            this.createNavigationBar(context);
         }
-
-        if (this.settings.showCloseButton) {
-            const closeBtn = buttons.createEl('button', { cls: 'clickable-icon' });
-            setIcon(closeBtn, 'x');
-            setTooltip(closeBtn, 'Close preview');
-            closeBtn.addEventListener('click', (e) => {
-                e.stopPropagation();
-                this.cleanupActivePreview();
-            });
+        if (this.settings.showOpenInBrowser || this.settings.showCloseButton || this.settings.showPinButton
+            || this.settings.showOpenInView || this.settings.showZoomButtons || this.settings.showCaptureButton) {
+            this.createButtons(context);
         }
-    }
 
-    private calculatePreviewBounds(rect: DOMRect, windowSize: { width: number, height: number }): {
-        left: number,
-        top: number,
-        width: number,
-        height: number,
-        showAbove: boolean
-    } {
-        const margin = 5; // Margin from edges
-        const maxWidth = Math.min(this.settings.maxPreviewWidth, windowSize.width - margin * 2);
-        const maxHeight = Math.min(this.settings.maxPreviewHeight, windowSize.height - margin * 2);
-        
-        // Determine if we should show above or below
-        const spaceBelow = windowSize.height - rect.bottom - margin;
-        const spaceAbove = rect.top - margin;
-        const showAbove = spaceBelow < maxHeight && spaceAbove > spaceBelow;
+        // Add preview hover handlers (only while this popup is the active one or nested in it, not once pinned)
+        previewEl.addEventListener('mouseenter', () => {
+            if (!this.isInsideActivePreview(previewEl)) return;
+            if (this.cleanupTimeout) {
+                window.clearTimeout(this.cleanupTimeout);
+                this.cleanupTimeout = undefined;
+            }
+        });
 
-        // Calculate vertical position
-        let top = showAbove ? 
-            Math.max(margin, rect.top - maxHeight - margin) : 
-            Math.min(rect.bottom + margin, windowSize.height - maxHeight - margin);
+        previewEl.addEventListener('mouseleave', () => {
+            if (context.child || context.parent) {
+                this.startNestedCleanupTimer();
+            }
+            if (!this.isInsideActivePreview(previewEl) || previewEl.hasClass('is-touch')) return;
+            if (!this.activePreview?.profile?.sticky) {
+                this.startCleanupTimer();
+            }
+        });
 
-        // Calculate horizontal position
-        let left = rect.left;
-        if (left + maxWidth > windowSize.width - margin) {
-            left = windowSize.width - maxWidth - margin;
-        }
-        left = Math.max(margin, left);
+        // Capture, so this runs before the click handlers of cards and readable text
+        previewEl.addEventListener('click', (e: MouseEvent) => this.handlePreviewLinkClick(context, e), true);
 
-        return {
-            left,
-            top,
-            width: maxWidth,
-            height: maxHeight,
-            showAbove
-        };
+        previewEl.addEventListener('wheel', (e: WheelEvent) => {
+            if (!e.ctrlKey && !e.metaKey) return;
+            e.preventDefault();
+            this.setZoom(context, context.zoom * (e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP));
+        }, { passive: false });
+
+        // Scroll events don't bubble, listen during capture to see the content's
+        previewEl.addEventListener('scroll', (e) => {
+            const target = e.target as Node | null;
+            if (target?.instanceOf(HTMLElement) && target.matches(SCROLLABLE_CONTENT_SELECTOR)) {
+                this.saveScrollPosition(context.url, target.scrollTop);
+            }
+        }, true);
+
+        previewEl.dataset.url = url;
+        doc.body.appendChild(previewEl);
+        this.startPreview(context);
+        return context;
     }
 
-    private findLinkElement(target: Element, relatedTarget: Element | null): { element: HTMLElement, url: string } | null {
-        const LINK_SELECTOR = 'a.external-link, a[href^="http"], span.external-link, .cm-hmd-external-link, .cm-link .cm-underline, .cm-url, [data-href], [data-url]';
+    // Keeps a closed popup loaded in the cache for reuse, or removes it
+    private releasePreview(context: PreviewContext) {
+        this.closeNestedPreview(context);
+        const previewEl = context.previewEl;
+        const failed = previewEl.querySelector('.preview-error') !== null;
+        // Players embedded by site adapters (YouTube, tweets) can't be paused from outside and would keep playing hidden
+        const isEmbed = context.adapter?.rewriteUrl !== undefined;
+        // The frame shows a page it followed a link to, not the one cached under its URL
+        if (failed || isEmbed || context.frameNavigated || this.settings.cacheSize <= 0) {
+            destroyPreview(context);
+            return;
+        }
 
-        let el: Element | null = target;
-        while (el && el !== document.body) {
-            if (!(el instanceof HTMLElement)) {
-                el = el.parentElement;
-                continue;
-            }
+        previewEl.querySelectorAll<HTMLMediaElement>('video, audio').forEach(media => media.pause());
+        previewEl.addClass('is-cached');
+        this.previewCache.put(context);
+    }
 
-            if (!el.matches(LINK_SELECTOR)) {
-                el = el.parentElement;
-                continue;
+    private getSourcePath(element: HTMLElement): string | undefined {
+        let sourcePath: string | undefined;
+        this.app.workspace.iterateAllLeaves(leaf => {
+            if (!sourcePath && leaf.view instanceof FileView && leaf.view.containerEl.contains(element)) {
+                sourcePath = leaf.view.file?.path;
             }
+        });
+        return sourcePath;
+    }
 
-            if (relatedTarget && el.contains(relatedTarget)) {
-                return null;
+    // Drops cached previews of links from notes that are no longer open
+    private evictClosedNotes() {
+        const openPaths = new Set<string>();
+        this.app.workspace.iterateAllLeaves(leaf => {
+            if (leaf.view instanceof FileView && leaf.view.file) {
+                openPaths.add(leaf.view.file.path);
             }
+        });
+        this.previewCache.evict(entry => entry.sourcePath !== undefined && !openPaths.has(entry.sourcePath));
+    }
 
-            let url: string | null = null;
+    private prefetchVisibleLinks() {
+        if (!this.settings.prefetchOnModifier || this.settings.cacheSize <= 0) return;
 
-            // In editor mode, use document search FIRST (DOM doesn't have URLs)
-            if (el.closest('.cm-editor')) {
-                url = this.getUrlFromEditorByText(el);
-            }
+        const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+        if (!view) return;
 
-            // Fallback to DOM extraction (works in Reader mode)
-            if (!url) {
-                url = this.extractUrlFromElement(el);
-            }
+        const viewport = view.contentEl.getBoundingClientRect();
+        const urls = new Set<string>();
+        for (const el of Array.from(view.contentEl.querySelectorAll(LINK_SELECTOR))) {
+            if (urls.size >= this.settings.cacheSize) break;
 
-            if (url) {
-                return { element: el, url };
-            }
+            const rect = el.getBoundingClientRect();
+            const isVisible = rect.bottom > viewport.top && rect.top < viewport.bottom && rect.width > 0;
+            if (!isVisible) continue;
 
-            el = el.parentElement;
+            const url = this.findLinkElement(el, null)?.url;
+            if (url && !this.getDomainPolicy(url).denied) urls.add(url);
         }
 
-        return null;
+        const sourcePath = view.file?.path;
+        for (const url of urls) {
+            if (this.previewCache.has(url) || this.activePreview?.element.dataset.url === url) continue;
+
+            const context = this.createPreview(url, view.contentEl.ownerDocument);
+            context.sourcePath = sourcePath;
+            context.previewEl.addClass('is-cached');
+            this.previewCache.put(context, true);
+        }
     }
 
-    private getUrlFromEditorByText(element: HTMLElement): string | null {
-        const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-        if (!view?.editor) return null;
+    getCacheStats(): PreviewCacheStats {
+        return this.previewCache.getStats();
+    }
+
+    clearCache() {
+        this.previewCache.clear();
+    }
 
-        const displayText = element.textContent?.trim();
-        if (!displayText) return null;
+    // Resolves redirects first, so adapters and domain rules apply to where the link goes
+    private startPreview(context: PreviewContext) {
+        if (!this.shouldResolveRedirects(context.url)) {
+            this.renderPreview(context, this.getPreviewMode(context));
+            return;
+        }
 
-        const content = view.editor.getValue();
-        const linkRegex = /\[([^\]]+)\]\((https?:\/\/[^)]+)\)/g;
-        let match;
-        let substringMatch: string | null = null;
+        const generation = ++context.generation;
+        this.clearPreviewContent(context.previewEl);
+        context.previewEl.createDiv('preview-loading loading-spinner');
 
-        while ((match = linkRegex.exec(content)) !== null) {
-            const linkText = match[1];
-            const url = match[2];
+        void this.resolveRedirects(context.url).then(chain => {
+            if (!this.isCurrentRender(context, generation)) return;
 
-            // Exact match — return immediately
-            if (linkText === displayText) {
-                return url;
+            if (chain.length > 1) {
+                const from = context.url;
+                Object.assign(context, this.getPreviewTarget(chain[chain.length - 1]));
+                context.redirectedFrom = from;
+                context.history[context.historyIndex] = context.url;
+                this.renderRedirectHeader(context);
+                this.updateNavigationBar(context);
             }
 
-            // Substring match — remember first one, but keep looking for exact
-            if (!substringMatch &&
-                (linkText.includes(displayText) || displayText.includes(linkText))) {
-                substringMatch = url;
+            if (this.getDomainPolicy(context.url).denied) {
+                this.clearPreviewContent(context.previewEl);
+                this.renderDeniedPanel(context);
+                return;
             }
-        }
+            this.renderPreview(context, this.getPreviewMode(context));
+        });
+    }
 
-        // No exact match found — use substring match if any
-        if (substringMatch) {
-            return substringMatch;
+    private shouldResolveRedirects(url: string): boolean {
+        // Site adapters and media links already know what they load
+        if (this.getLinkKind(url) !== 'web' || this.getMediaTypeForUrl(url) || this.resolveAdapter(url).adapter) {
+            return false;
         }
 
-        // Bare URL fallback
-        if (displayText.startsWith('http')) {
-            return this.normalizeUrl(displayText);
+        switch (this.settings.resolveRedirects) {
+            case 'all':
+                return true;
+            case 'short-links':
+                try {
+                    const hostname = new URL(url).hostname;
+                    return this.settings.shortLinkDomains.some(pattern => this.matchesDomain(hostname, pattern));
+                } catch {
+                    return false;
+                }
+            default:
+                return false;
         }
-
-        return null;
     }
 
-    private extractUrlFromElement(element: HTMLElement): string | null {
-        // For anchor elements, use href directly
-        if (element instanceof HTMLAnchorElement) {
-            return element.href;
+    /**
+     * Follows a link's HTTP redirects and returns every URL requested, starting with `url`.
+     * Stops at the hop limit, or at the timeout with the hops found so far. Redirects can't
+     * be seen on mobile, where this returns just `url`.
+     */
+    private async resolveRedirects(url: string): Promise<string[]> {
+        if (!canFollowRedirects()) return [url];
+        try {
+            const hops = await followRedirects(this.getRequestUrl(url), REDIRECT_TIMEOUT);
+            return [url, ...hops.slice(1).map(hop => hop.url)];
+        } catch {
+            // Unreachable, let the preview report it
+            return [url];
         }
+    }
 
-        // Check element's own attributes
-        const attributes = ['data-href', 'data-url', 'href', 'aria-label', 'title'];
-        for (const attr of attributes) {
-            const value = element.getAttribute(attr);
-            const url = value ? this.normalizeUrl(value) : null;
-            if (url) return url;
-        }
+    /**
+     * Shows where a redirected link ended up, as a warning when that isn't the domain the
+     * link appears to point at: the domain in its text, or else the link's own.
+     */
+    private renderRedirectHeader(context: PreviewContext) {
+        const el = context.previewEl;
+        el.querySelector('.preview-redirect')?.remove();
 
-        // For CodeMirror elements, look for ancestor anchor or external-link
-        let ancestor: HTMLElement | null = element;
-        while (ancestor && ancestor !== document.body) {
-            if (ancestor instanceof HTMLAnchorElement && ancestor.href) {
-                return this.normalizeUrl(ancestor.href);
-            }
-            // Check for Obsidian's external-link class which wraps the anchor
-            if (ancestor.classList.contains('external-link') || ancestor.classList.contains('cm-link')) {
-                const anchor = ancestor.querySelector('a[href]');
-                if (anchor instanceof HTMLAnchorElement && anchor.href) {
-                    return this.normalizeUrl(anchor.href);
-                }
+        const shown = this.getDisplayedHostname(context.linkText, context.redirectedFrom ?? context.url);
+        const final = new URL(context.url).hostname.replace(/^www\./, '');
+        const differs = !this.matchesDomain(final, shown) && !this.matchesDomain(shown, final);
+
+        const header = createDiv('preview-redirect');
+        header.toggleClass('is-warning', differs);
+        setIcon(header.createSpan('preview-redirect-icon'), differs ? 'alert-triangle' : 'corner-down-right');
+        header.createSpan({ cls: 'preview-redirect-from', text: shown });
+        header.createSpan({ text: '→' });
+        header.createSpan({ cls: 'preview-redirect-to', text: final });
+        setTooltip(header, differs
+            ? `This link shows ${shown} but leads to ${context.url}`
+            : `Redirects to ${context.url}`);
+
+        // Below the navigation bar, above the content
+        const bar = el.querySelector('.preview-nav-bar');
+        el.insertBefore(header, bar ? bar.nextSibling : el.firstChild);
+    }
+
+    private getDisplayedHostname(linkText: string | undefined, url: string): string {
+        const text = linkText?.trim() ?? '';
+        if (/^(https?:\/\/)?([a-z0-9-]+\.)+[a-z]{2,}(\/\S*)?$/i.test(text)) {
+            try {
+                return new URL(/^https?:/i.test(text) ? text : `https://${text}`).hostname.replace(/^www\./, '');
+            } catch {
+                // Fall back to the link's own domain
             }
-            ancestor = ancestor.parentElement;
         }
+        return new URL(url).hostname.replace(/^www\./, '');
+    }
 
-        // Fallback to text content (for bare URLs in editor)
-        const text = element.textContent?.trim();
-        return text ? this.normalizeUrl(text) : null;
+    // A redirect that ended on a denied domain
+    private renderDeniedPanel(context: PreviewContext) {
+        const panel = context.previewEl.createDiv('preview-error');
+        setIcon(panel.createDiv('preview-error-icon'), 'shield-off');
+        panel.createDiv({ cls: 'preview-error-message', text: 'Preview disabled for this domain' });
+        panel.createDiv({ cls: 'preview-error-url', text: context.url });
     }
 
-    private normalizeUrl(candidate: string): string | null {
-        const trimmed = candidate.trim();
-        if (!/^https?:\/\//i.test(trimmed)) {
-            return null;
+    private renderPreview(context: PreviewContext, mode: PreviewMode) {
+        // Invalidate pending async work from a previous render (e.g. retry)
+        context.generation++;
+        context.mode = mode;
+        this.clearPreviewContent(context.previewEl);
+
+        const loading = context.previewEl.createDiv('preview-loading');
+        loading.addClass('loading-spinner');
+        this.applyZoom(context);
+
+        const kind = this.getLinkKind(context.url);
+        const mediaType = kind === 'web' ? this.getMediaTypeForUrl(context.previewUrl) : null;
+        const renderer = this.getCustomRenderer(context.previewUrl);
+        if (renderer) {
+            void this.renderCustomPreview(context, renderer, loading);
+        } else if (kind !== 'web') {
+            void this.renderLocalPreview(context, kind, loading);
+        } else if (mediaType) {
+            loading.remove();
+            this.renderMedia(context, context.previewEl, context.previewUrl, mediaType);
+        } else if (mode === 'card') {
+            void this.renderCardPreview(context, loading);
+        } else if (mode === 'readable') {
+            void this.renderReadablePreview(context, loading);
+        } else {
+            void this.renderIframePreview(context, loading, mode === 'auto');
         }
+    }
+
+    private getCustomRenderer(url: string): CustomPreviewRenderer | undefined {
+        let parsed: URL;
         try {
-            const url = new URL(trimmed);
-            return url.href;
+            parsed = new URL(url);
         } catch {
-            return null;
+            return undefined;
         }
+        return this.registeredRenderers.find(renderer => {
+            try {
+                return renderer.matches(parsed);
+            } catch {
+                return false;
+            }
+        });
     }
-}
 
-class LinkPreviewSettingTab extends PluginSettingTab {
-    plugin: LinkPreviewPlugin;
+    private async renderCustomPreview(context: PreviewContext, renderer: CustomPreviewRenderer, loading: HTMLElement) {
+        const generation = context.generation;
+        const container = context.previewEl.createDiv('preview-custom');
+        container.dataset.renderer = renderer.id;
 
-    constructor(app: App, plugin: LinkPreviewPlugin) {
-        super(app, plugin);
-        this.plugin = plugin;
+        try {
+            await renderer.render(container, context.url, context.component);
+        } catch {
+            if (!this.isCurrentRender(context, generation)) return;
+            container.remove();
+            this.renderErrorPanel(context, { kind: 'network', message: 'The preview could not be rendered' });
+        } finally {
+            if (this.isCurrentRender(context, generation)) {
+                loading.remove();
+            }
+        }
     }
 
-    display(): void {
-        const {containerEl} = this;
+    private clearPreviewContent(previewEl: HTMLElement) {
+        for (const child of Array.from(previewEl.children)) {
+            if (!child.matches(PREVIEW_CHROME_SELECTOR)) {
+                child.remove();
+            }
+        }
+    }
+
+    private isCurrentRender(context: PreviewContext, generation: number): boolean {
+        return context.generation === generation && context.previewEl.isConnected;
+    }
+
+    private async renderIframePreview(context: PreviewContext, loading: HTMLElement, useFallback: boolean) {
+        const generation = context.generation;
+
+        // Links without an extension may still be media, only Content-Type tells
+        const detectMedia = !context.adapter && this.getPathExtension(context.previewUrl) === '';
+        if (this.settings.checkHeaders || useFallback || detectMedia) {
+            const { error, mediaType } = await this.preflight(context.previewUrl);
+            if (!this.isCurrentRender(context, generation)) return;
+
+            // Media without a recognizable extension, detected by Content-Type
+            if (mediaType) {
+                loading.remove();
+                this.renderMedia(context, context.previewEl, context.previewUrl, mediaType);
+                return;
+            }
+
+            if (error?.kind === 'blocked' && useFallback) {
+                // The embeddable URL may differ from the page with the metadata
+                loading.remove();
+                this.renderPreview(context, this.settings.blockedFallback);
+                return;
+            }
+            if (error && this.settings.checkHeaders) {
+                loading.remove();
+                this.renderErrorPanel(context, error);
+                return;
+            }
+        }
+
+        const wrapper = context.previewEl.createDiv('preview-iframe-wrapper');
+        this.applyAdapterStyles(wrapper, context.adapter);
+        this.applyZoom(context);
+        if (context.adapter?.naturalSize) {
+            this.fitPreviewToContent(context, context.adapter.naturalSize.width, context.adapter.naturalSize.height);
+        }
+
+        const iframe = createEl('iframe', {
+            attr: {
+                src: context.previewUrl
+            }
+        });
+        this.applyPrivacyProfile(iframe, context);
+        
+        wrapper.appendChild(iframe);
+
+        // Watchdog: cross-origin frames rarely report errors, so treat a stalled load as a failure
+        let watchdog: number | undefined;
+        if (this.settings.loadTimeout > 0) {
+            watchdog = window.setTimeout(() => {
+                if (!this.isCurrentRender(context, generation)) return;
+                wrapper.remove();
+                loading.remove();
+                this.renderErrorPanel(context, {
+                    kind: 'timeout',
+                    message: `The page didn't load within ${this.settings.loadTimeout / 1000} seconds`,
+                });
+            }, this.settings.loadTimeout);
+        }
+
+        let loads = 0;
+        iframe.onload = () => {
+            window.clearTimeout(watchdog);
+            // Later loads are links followed inside the frame
+            if (++loads > 1) {
+                if (this.isCurrentRender(context, generation)) {
+                    context.frameNavigated = true;
+                    this.updateNavigationBar(context);
+                }
+                return;
+            }
+            if (this.isCurrentRender(context, generation)) {
+                this.recordLoadResult(context, false);
+            }
+            // Small delay to let page render before showing
+            setTimeout(() => {
+                iframe.addClass('is-loaded');
+                loading.remove();  // Remove entirely to stop infinite animation
+            }, 50);
+        };
+
+        iframe.onerror = () => {
+            window.clearTimeout(watchdog);
+            if (!this.isCurrentRender(context, generation)) return;
+            wrapper.remove();
+            loading.remove();
+            this.renderErrorPanel(context, { kind: 'network', message: 'The page could not be loaded' });
+        };
+    }
+
+    private applyPrivacyProfile(iframe: HTMLIFrameElement, context: PreviewContext) {
+        const profile = PRIVACY_PROFILES[this.settings.privacyProfile];
+
+        let sandbox = profile.sandbox;
+        if (context.domainRule?.disableScripts) {
+            // Domain rule blocks scripts even under the full profile
+            sandbox = (sandbox ?? PRIVACY_PROFILES.reduced.sandbox ?? '')
+                .split(' ')
+                .filter(flag => flag !== 'allow-scripts')
+                .join(' ');
+        }
+
+        if (sandbox !== undefined) {
+            iframe.setAttr('sandbox', sandbox);
+        }
+        if (profile.referrerPolicy) {
+            iframe.setAttr('referrerpolicy', profile.referrerPolicy);
+        }
+        if (profile.allow) {
+            iframe.setAttr('allow', profile.allow);
+        }
+
+        const badge = context.previewEl.createDiv('preview-privacy-badge');
+        badge.dataset.profile = this.settings.privacyProfile;
+        setIcon(badge.createSpan(), profile.icon);
+        badge.createSpan({ text: profile.label });
+        setTooltip(badge, profile.description);
+    }
+
+    private getLinkKind(url: string): LinkKind {
+        const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(url)?.[1].toLowerCase();
+        switch (scheme) {
+            case 'obsidian': return 'obsidian';
+            case 'file': return 'file';
+            case 'mailto': return 'mailto';
+            case 'tel': return 'tel';
+            default: return 'web';
+        }
+    }
+
+    /**
+     * Renders links that don't need the network: vault files and obsidian:// URIs,
+     * local file:// paths, and mailto:/tel: links as an info card.
+     */
+    private async renderLocalPreview(context: PreviewContext, kind: Exclude<LinkKind, 'web'>, loading: HTMLElement) {
+        const generation = context.generation;
+        const container = context.previewEl.createDiv('preview-local');
+
+        try {
+            if (kind === 'mailto' || kind === 'tel') {
+                this.renderContactCard(container, context.url, kind);
+            } else if (kind === 'obsidian') {
+                const file = this.resolveObsidianUri(context.url);
+                if (!file) {
+                    loading.remove();
+                    container.remove();
+                    this.renderErrorPanel(context, { kind: 'network', message: 'File not found in this vault' });
+                    return;
+                }
+                await this.renderVaultFile(context, container, file);
+            } else {
+                this.renderLocalFile(context, container, context.url);
+            }
+        } finally {
+            if (this.isCurrentRender(context, generation)) {
+                loading.remove();
+                this.restoreScrollPosition(context);
+            }
+        }
+    }
+
+    // Resolves obsidian://open URIs (by vault file or absolute path) to a file in this vault
+    private resolveObsidianUri(uri: string): TFile | null {
+        let parsed: URL;
+        try {
+            parsed = new URL(uri);
+        } catch {
+            return null;
+        }
+
+        // obsidian://open?... parses with an empty host in some runtimes
+        const action = parsed.hostname || parsed.pathname.replace(/^\/+/, '');
+        if (action !== 'open') return null;
+
+        const vault = parsed.searchParams.get('vault');
+        if (vault && vault !== this.app.vault.getName()) return null;
+
+        let path = parsed.searchParams.get('file');
+        const absolutePath = parsed.searchParams.get('path');
+        if (!path && absolutePath) {
+            path = this.getVaultRelativePath(absolutePath);
+        }
+        if (!path) return null;
+
+        const file = this.app.vault.getFileByPath(path) ?? this.app.metadataCache.getFirstLinkpathDest(path, '');
+        return file;
+    }
+
+    private getVaultRelativePath(absolutePath: string): string | null {
+        const adapter = this.app.vault.adapter;
+        if (!(adapter instanceof FileSystemAdapter)) return null;
+
+        const base = adapter.getBasePath().replace(/\\/g, '/').replace(/\/$/, '');
+        const path = absolutePath.replace(/\\/g, '/');
+        return path.startsWith(`${base}/`) ? path.slice(base.length + 1) : null;
+    }
+
+    private async renderVaultFile(context: PreviewContext, container: HTMLElement, file: TFile) {
+        const extension = file.extension.toLowerCase();
+        const mediaType = this.getMediaTypeForExtension(extension);
+
+        if (extension === 'md') {
+            const markdown = container.createDiv('preview-markdown markdown-rendered');
+            await MarkdownRenderer.render(this.app, await this.app.vault.cachedRead(file), markdown, file.path, context.component);
+        } else if (mediaType) {
+            this.renderMedia(context, container, this.app.vault.getResourcePath(file), mediaType);
+        } else {
+            this.renderFileInfo(container, file.name, [
+                `${Math.round(file.stat.size / 1024)} KB`,
+                `Modified ${new Date(file.stat.mtime).toLocaleString()}`,
+            ]);
+        }
+
+        const actions = container.createDiv('preview-local-actions');
+        const openButton = actions.createEl('button', { text: 'Open file' });
+        openButton.addEventListener('click', (e) => {
+            e.stopPropagation();
+            void this.app.workspace.getLeaf('tab').openFile(file);
+            this.cleanupActivePreview();
+        });
+    }
+
+    private renderLocalFile(context: PreviewContext, container: HTMLElement, url: string) {
+        let path: string;
+        try {
+            path = decodeURIComponent(new URL(url).pathname);
+        } catch {
+            path = url;
+        }
+        // Windows paths come through as /C:/...
+        path = path.replace(/^\/([a-zA-Z]:\/)/, '$1');
+
+        const vaultPath = this.getVaultRelativePath(path);
+        const vaultFile = vaultPath ? this.app.vault.getFileByPath(vaultPath) : null;
+        if (vaultFile) {
+            void this.renderVaultFile(context, container, vaultFile);
+            return;
+        }
+
+        const name = path.split('/').pop() ?? path;
+        const mediaType = this.getMediaTypeForExtension(this.getExtension(name));
+        if (mediaType) {
+            this.renderMedia(context, container, `${Platform.resourcePathPrefix}${path.replace(/^\//, '')}`, mediaType);
+        } else {
+            this.renderFileInfo(container, name, [path]);
+        }
+    }
+
+    private getExtension(path: string): string {
+        const name = path.split('/').pop() ?? '';
+        return name.includes('.') ? name.split('.').pop()?.toLowerCase() ?? '' : '';
+    }
+
+    private getMediaTypeForExtension(extension: string): MediaType | null {
+        if (IMAGE_EXTENSIONS.includes(extension)) return 'image';
+        if (VIDEO_EXTENSIONS.includes(extension)) return 'video';
+        if (AUDIO_EXTENSIONS.includes(extension)) return 'audio';
+        if (extension === 'pdf') return 'pdf';
+        return null;
+    }
+
+    private getMediaTypeForContentType(contentType: string): MediaType | null {
+        const mime = contentType.split(';')[0].trim().toLowerCase();
+        if (mime.startsWith('image/')) return 'image';
+        if (mime.startsWith('video/')) return 'video';
+        if (mime.startsWith('audio/')) return 'audio';
+        if (mime === 'application/pdf') return 'pdf';
+        return null;
+    }
+
+    private getMediaTypeForUrl(url: string): MediaType | null {
+        return this.getMediaTypeForExtension(this.getPathExtension(url));
+    }
+
+    // Extension of the URL's path, empty when it has none or isn't a URL
+    private getPathExtension(url: string): string {
+        try {
+            return this.getExtension(new URL(url).pathname);
+        } catch {
+            return '';
+        }
+    }
+
+    /**
+     * Renders media natively instead of in a page frame. Images and videos resize the popup
+     * to their aspect ratio once their dimensions are known.
+     */
+    private renderMedia(context: PreviewContext, container: HTMLElement, src: string, type: MediaType) {
+        const media = container.createDiv(`preview-media-container preview-media-${type}`);
+        const referrerPolicy = PRIVACY_PROFILES[this.settings.privacyProfile].referrerPolicy;
+
+        if (type === 'image') {
+            const image = media.createEl('img', { cls: 'preview-media', attr: { src, alt: '' } });
+            if (referrerPolicy) image.setAttr('referrerpolicy', referrerPolicy);
+            image.addEventListener('load', () => this.fitPreviewToContent(context, image.naturalWidth, image.naturalHeight));
+            this.addImageZoom(media, image);
+        } else if (type === 'video') {
+            const video = media.createEl('video', { cls: 'preview-media', attr: { src, controls: '' } });
+            if (referrerPolicy) video.setAttr('referrerpolicy', referrerPolicy);
+            video.addEventListener('loadedmetadata', () => this.fitPreviewToContent(context, video.videoWidth, video.videoHeight));
+        } else if (type === 'audio') {
+            const audio = media.createEl('audio', { cls: 'preview-media', attr: { src, controls: '' } });
+            if (referrerPolicy) audio.setAttr('referrerpolicy', referrerPolicy);
+            this.fitPreviewToContent(context, this.settings.maxPreviewWidth, 120);
+        } else {
+            this.renderPdf(media, src);
+        }
+    }
+
+    // Click toggles between fitting the popup and actual size, Ctrl/Cmd + wheel zooms
+    private addImageZoom(container: HTMLElement, image: HTMLImageElement) {
+        let zoom = 1;
+        const applyZoom = () => {
+            container.toggleClass('is-zoomed', zoom !== 1);
+            image.setCssProps({ '--preview-image-zoom': String(zoom) });
+        };
+
+        image.addEventListener('click', (e) => {
+            e.stopPropagation();
+            zoom = zoom === 1 ? Math.max(1, image.naturalWidth / Math.max(1, image.clientWidth)) : 1;
+            applyZoom();
+        });
+        container.addEventListener('wheel', (e: WheelEvent) => {
+            if (!e.ctrlKey && !e.metaKey) return;
+            e.preventDefault();
+            // Zooms the image instead of the whole preview
+            e.stopPropagation();
+            zoom = Math.min(8, Math.max(1, zoom * (e.deltaY < 0 ? 1.25 : 0.8)));
+            applyZoom();
+        }, { passive: false });
+    }
+
+    // PDFs use the built-in viewer, navigated with the #page= fragment
+    private renderPdf(container: HTMLElement, src: string) {
+        let page = 1;
+        const toolbar = container.createDiv('preview-pdf-toolbar');
+        const frame = container.createEl('iframe', { cls: 'preview-pdf', attr: { src } });
+
+        const pageInput = createEl('input', { type: 'number', cls: 'preview-pdf-page', attr: { min: '1', value: '1' } });
+        const goTo = (target: number) => {
+            page = Math.max(1, target);
+            pageInput.value = String(page);
+            frame.setAttr('src', `${src.split('#')[0]}#page=${page}`);
+        };
+
+        const previous = toolbar.createEl('button', { cls: 'clickable-icon' });
+        setIcon(previous, 'chevron-left');
+        setTooltip(previous, 'Previous page');
+        previous.addEventListener('click', (e) => {
+            e.stopPropagation();
+            goTo(page - 1);
+        });
+
+        toolbar.appendChild(pageInput);
+        pageInput.addEventListener('change', () => goTo(Number(pageInput.value) || 1));
+
+        const next = toolbar.createEl('button', { cls: 'clickable-icon' });
+        setIcon(next, 'chevron-right');
+        setTooltip(next, 'Next page');
+        next.addEventListener('click', (e) => {
+            e.stopPropagation();
+            goTo(page + 1);
+        });
+    }
+
+    /**
+     * Shrinks a hover popup to the content's natural size when it's smaller than the maximum,
+     * keeping the aspect ratio unless `preserveAspectRatio` is false. Pinned panels and
+     * workspace views keep their size.
+     */
+    private fitPreviewToContent(context: PreviewContext, width: number, height: number, preserveAspectRatio = true) {
+        if (!this.settings.fitToContent || !width || !height) return;
+
+        const max = this.getMaxPreviewSize(context);
+        // The navigation bar and redirect header sit above the content and take part of the height
+        const chrome = Array.from(context.previewEl.querySelectorAll<HTMLElement>('.preview-nav-bar, .preview-redirect'))
+            .reduce((sum, el) => sum + el.offsetHeight, 0);
+        const available = { width: max.width, height: max.height - chrome };
+        if (preserveAspectRatio) {
+            const scale = Math.min(1, available.width / width, available.height / height);
+            context.contentSize = { width: Math.round(width * scale), height: Math.round(height * scale) + chrome };
+        } else {
+            context.contentSize = { width: Math.min(available.width, Math.round(width)), height: Math.min(available.height, Math.round(height)) + chrome };
+        }
+
+        // Before the popup is shown, showPreview() positions it with the stored size
+        if (context.anchorRect && !context.previewEl.hasClass('is-pinned')) {
+            this.positionPreviewElement(context, context.anchorRect);
+        }
+    }
+
+    private renderFileInfo(container: HTMLElement, name: string, details: string[]) {
+        const info = container.createDiv('preview-file-info');
+        setIcon(info.createDiv('preview-file-icon'), 'file');
+        info.createDiv({ cls: 'preview-file-name', text: name });
+        for (const detail of details) {
+            info.createDiv({ cls: 'preview-file-detail', text: detail });
+        }
+    }
+
+    private renderContactCard(container: HTMLElement, url: string, kind: 'mailto' | 'tel') {
+        const card = container.createDiv('preview-contact');
+        const [target, query = ''] = url.replace(/^[a-z]+:/i, '').split('?');
+        const params = new URLSearchParams(query);
+
+        let address: string;
+        try {
+            address = decodeURIComponent(target);
+        } catch {
+            address = target;
+        }
+
+        setIcon(card.createDiv('preview-contact-icon'), kind === 'mailto' ? 'mail' : 'phone');
+        card.createDiv({ cls: 'preview-contact-address', text: address });
+
+        if (kind === 'mailto') {
+            for (const [label, name] of [['Subject', 'subject'], ['Cc', 'cc'], ['Bcc', 'bcc'], ['Body', 'body']]) {
+                const value = params.get(name);
+                if (value) {
+                    card.createDiv({ cls: 'preview-contact-detail', text: `${label}: ${value}` });
+                }
+            }
+        }
+
+        const actions = card.createDiv('preview-local-actions');
+        const primary = actions.createEl('button', { cls: 'mod-cta', text: kind === 'mailto' ? 'Compose email' : 'Call' });
+        primary.addEventListener('click', (e) => {
+            e.stopPropagation();
+            window.open(url);
+        });
+        const copy = actions.createEl('button', { text: kind === 'mailto' ? 'Copy address' : 'Copy number' });
+        copy.addEventListener('click', (e) => {
+            e.stopPropagation();
+            void navigator.clipboard.writeText(address).then(() => new Notice('Copied to clipboard'));
+        });
+    }
+
+    private async renderCardPreview(context: PreviewContext, loading: HTMLElement) {
+        const generation = context.generation;
+        try {
+            const page = await this.fetchPage(context.url);
+            if (!this.isCurrentRender(context, generation)) return;
+            if (page.status >= 400) {
+                loading.remove();
+                this.renderErrorPanel(context, this.getHttpError(page.status));
+                return;
+            }
+
+            const metadata = await this.getPageMetadata(page);
+            if (!this.isCurrentRender(context, generation)) return;
+            loading.remove();
+            const card = this.renderCard(context.previewEl, metadata);
+            this.fitCardToContent(context, card);
+            this.recordLoadResult(context, false);
+            this.restoreScrollPosition(context);
+        } catch {
+            if (!this.isCurrentRender(context, generation)) return;
+            loading.remove();
+            this.renderErrorPanel(context, { kind: 'network', message: 'The site could not be reached' });
+        }
+    }
+
+    // Script-free article text, fetched without loading the page itself
+    private async renderReadablePreview(context: PreviewContext, loading: HTMLElement) {
+        const generation = context.generation;
+        try {
+            const page = await this.fetchPage(context.url);
+            if (!this.isCurrentRender(context, generation)) return;
+            if (page.status >= 400) {
+                loading.remove();
+                this.renderErrorPanel(context, this.getHttpError(page.status));
+                return;
+            }
+
+            const content = this.extractReadableContent(page.html, page.url);
+            loading.remove();
+            if (!content) {
+                this.renderErrorPanel(context, { kind: 'network', message: 'No readable text found on this page' });
+                return;
+            }
+            this.renderReadable(context.previewEl, parsePageMetadata(page.html, page.url), content);
+            this.recordLoadResult(context, false);
+            this.restoreScrollPosition(context);
+        } catch {
+            if (!this.isCurrentRender(context, generation)) return;
+            loading.remove();
+            this.renderErrorPanel(context, { kind: 'network', message: 'The site could not be reached' });
+        }
+    }
+
+    private renderReadable(container: HTMLElement, metadata: PageMetadata, content: HTMLElement) {
+        const readable = container.createDiv('preview-readable');
+        const privacy = PRIVACY_PROFILES[this.settings.privacyProfile];
+
+        const header = readable.createDiv('preview-readable-header');
+        header.createDiv({ cls: 'preview-readable-site', text: metadata.siteName ?? new URL(metadata.url).hostname });
+        header.createEl('h1', { cls: 'preview-readable-title', text: metadata.title ?? metadata.url });
+        const words = (content.textContent ?? '').split(/\s+/).filter(word => word.length > 0).length;
+        const readingTime = `${Math.max(1, Math.round(words / READING_WORDS_PER_MINUTE))} min read`;
+        header.createDiv({ cls: 'preview-readable-meta', text: [metadata.author, readingTime].filter(Boolean).join(' · ') });
+
+        const outline = readable.createEl('details', { cls: 'preview-readable-outline' });
+        const body = readable.createDiv('preview-readable-body markdown-rendered');
+        body.appendChild(sanitizeHTMLToDom(content.innerHTML));
+
+        // Theme typography only
+        body.querySelectorAll('[style], [class], [id], [width], [height]').forEach(el => {
+            ['style', 'class', 'id', 'width', 'height'].forEach(name => el.removeAttribute(name));
+        });
+        body.querySelectorAll('img').forEach(image => {
+            image.setAttr('loading', 'lazy');
+            if (privacy.referrerPolicy) image.setAttr('referrerpolicy', privacy.referrerPolicy);
+        });
+        body.querySelectorAll('a[href]').forEach(link => {
+            // Relative links point at the page's site, not the app
+            try {
+                link.setAttr('href', new URL(link.getAttribute('href') ?? '', metadata.url).href);
+            } catch {
+                link.removeAttribute('href');
+                return;
+            }
+            link.addEventListener('click', (e) => {
+                e.preventDefault();
+                window.open(link.getAttribute('href') ?? '');
+            });
+        });
+
+        const headings = Array.from(body.querySelectorAll<HTMLElement>('h2, h3'));
+        if (headings.length < 2) {
+            outline.remove();
+            return;
+        }
+        outline.createEl('summary', { text: 'Contents' });
+        for (const heading of headings) {
+            const item = outline.createDiv({ cls: `preview-readable-outline-item is-${heading.tagName.toLowerCase()}`, text: heading.textContent?.trim() ?? '' });
+            item.addEventListener('click', (e) => {
+                e.stopPropagation();
+                heading.scrollIntoView({ block: 'start' });
+            });
+        }
+    }
+
+    /**
+     * Pre-flight HEAD request that reports why a page can't be framed and detects media
+     * by Content-Type. Network failures report nothing and leave the decision to the iframe.
+     */
+    private async preflight(url: string): Promise<{ error: PreviewError | null, mediaType?: MediaType }> {
+        let response: RequestUrlResponse;
+        try {
+            response = await this.request({ url, method: 'HEAD', throw: false });
+        } catch {
+            return { error: null };
+        }
+
+        const headers = normalizeHeaders(response.headers);
+
+        // Some servers don't implement HEAD
+        if (response.status >= 400 && response.status !== 405 && response.status !== 501) {
+            return { error: this.getHttpError(response.status) };
+        }
+
+        const mediaType = this.getMediaTypeForContentType(headers['content-type'] ?? '');
+        if (mediaType) {
+            // Media is rendered natively, framing restrictions don't apply
+            return { error: null, mediaType };
+        }
+        if (this.isFramingBlocked(headers)) {
+            return { error: { kind: 'blocked', message: "This site doesn't allow being embedded" } };
+        }
+        return { error: null };
+    }
+
+    private getHttpError(status: number): PreviewError {
+        let message: string;
+        if (status === 401 || status === 403) {
+            message = 'This page requires signing in';
+        } else if (status === 404 || status === 410) {
+            message = 'Page not found';
+        } else if (status === 429) {
+            message = 'Too many requests to this site';
+        } else if (status >= 500) {
+            message = 'The server responded with an error';
+        } else {
+            message = 'The page could not be loaded';
+        }
+        return { kind: 'http', status, message };
+    }
+
+    private renderErrorPanel(context: PreviewContext, error: PreviewError) {
+        this.app.workspace.trigger('url-preview:load-failed', context.url, context.previewEl, error);
+        // Blocked sites load fine in a browser
+        if (error.kind !== 'blocked') {
+            this.recordLoadResult(context, true);
+        }
+
+        const panel = context.previewEl.createDiv('preview-error');
+        panel.dataset.errorKind = error.kind;
+
+        const icon = panel.createDiv('preview-error-icon');
+        setIcon(icon, error.kind === 'blocked' ? 'shield-off' : 'alert-triangle');
+
+        panel.createDiv({ cls: 'preview-error-message', text: error.message });
+        if (error.status) {
+            panel.createDiv({ cls: 'preview-error-status', text: `HTTP ${error.status}` });
+        }
+        panel.createDiv({ cls: 'preview-error-url', text: context.url });
+
+        const actions = panel.createDiv('preview-error-actions');
+        const addAction = (text: string, onClick: () => void, cta = false) => {
+            const button = actions.createEl('button', { text });
+            if (cta) button.addClass('mod-cta');
+            button.addEventListener('click', (e) => {
+                e.stopPropagation();
+                onClick();
+            });
+        };
+
+        addAction('Open in browser', () => window.open(context.url), true);
+        addAction('Retry', () => this.renderPreview(context, context.mode ?? this.getPreviewMode(context)));
+        addAction('Show metadata card', () => this.renderPreview(context, 'card'));
+        addAction('Show readable text', () => this.renderPreview(context, 'readable'));
+        addAction('Copy URL', () => {
+            void navigator.clipboard.writeText(context.url).then(() => new Notice('URL copied'));
+        });
+    }
+
+    /**
+     * Saves a clipping of the page (metadata and readable text) as a new note, or as a
+     * callout appended to the note the link is in.
+     */
+    async capturePage(url: string, sourcePath = '') {
+        const notice = new Notice('Saving page to vault...', 0);
+        try {
+            const page = await this.fetchPage(url);
+            if (page.status >= 400) {
+                throw new Error(this.getHttpError(page.status).message);
+            }
+
+            const metadata = await this.getPageMetadata(page);
+            const content = this.extractReadableContent(page.html, url);
+            const sourceFile = this.app.vault.getFileByPath(sourcePath);
+            const appendToNote = this.settings.captureTarget === 'current-note' && sourceFile?.extension === 'md';
+            const notePath = appendToNote && sourceFile ? sourceFile.path : await this.getCapturePath(metadata.title ?? new URL(url).hostname, sourcePath);
+
+            let image = '';
+            if (metadata.image && this.settings.captureDownloadImage) {
+                image = await this.downloadCaptureImage(metadata.image, notePath) ?? `![](<${metadata.image}>)`;
+            } else if (metadata.image) {
+                image = `![](<${metadata.image}>)`;
+            }
+
+            // The title heads the callout and the site is link text, both must stay on one line
+            const title = this.escapeLinkText(metadata.title ?? url);
+
+            const clipping = this.fillCaptureTemplate(this.settings.captureTemplate, {
+                title,
+                url,
+                description: metadata.description ?? '',
+                site: this.escapeLinkText(metadata.siteName ?? new URL(url).hostname),
+                author: metadata.author ?? '',
+                favicon: metadata.favicon ?? '',
+                image,
+                date: moment().format('YYYY-MM-DD HH:mm'),
+                content: content ? htmlToMarkdown(content) : '',
+            });
+
+            if (appendToNote && sourceFile) {
+                const callout = `> [!quote] ${title}\n${clipping.split('\n').map(line => `> ${line}`.trimEnd()).join('\n')}`;
+                await this.app.vault.process(sourceFile, data => `${data.trimEnd()}\n\n${callout}\n`);
+                new Notice(`Clipping added to ${sourceFile.basename}`);
+            } else {
+                const file = await this.app.vault.create(notePath, clipping);
+                new Notice(`Saved clipping to ${file.path}`);
+            }
+        } catch (error) {
+            new Notice(`Couldn't save the page: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            notice.hide();
+        }
+    }
+
+    // Unique path for a new clipping note named after the page
+    private async getCapturePath(title: string, sourcePath: string): Promise<string> {
+        const folder = this.settings.captureFolder.trim()
+            ? normalizePath(this.settings.captureFolder)
+            : this.app.fileManager.getNewFileParent(sourcePath).path;
+        if (folder !== '/' && !this.app.vault.getFolderByPath(folder)) {
+            await this.app.vault.createFolder(folder);
+        }
+
+        const name = title.replace(/[\\/:*?"<>|#^[\]]/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 100) || 'Clipping';
+        const base = folder === '/' ? name : `${folder}/${name}`;
+        let path = `${base}.md`;
+        for (let n = 1; this.app.vault.getAbstractFileByPath(path); n++) {
+            path = `${base} ${n}.md`;
+        }
+        return path;
+    }
+
+    // Saves the image as an attachment and returns an embed for it, or null if it can't be downloaded
+    private async downloadCaptureImage(imageUrl: string, notePath: string): Promise<string | null> {
+        try {
+            const response = await this.request({ url: imageUrl, throw: false });
+            if (response.status >= 400) return null;
+
+            const extension = this.getExtension(new URL(imageUrl).pathname);
+            const type = normalizeHeaders(response.headers)['content-type']?.split(';')[0].trim().toLowerCase() ?? '';
+            const name = `${new URL(imageUrl).pathname.split('/').pop()?.replace(/\.[^.]*$/, '') || 'image'}.${IMAGE_EXTENSIONS.includes(extension) ? extension : IMAGE_TYPE_EXTENSIONS[type] ?? 'png'}`;
+            const path = await this.app.fileManager.getAvailablePathForAttachment(name, notePath);
+            const file = await this.app.vault.createBinary(path, response.arrayBuffer);
+            return `!${this.app.fileManager.generateMarkdownLink(file, notePath)}`;
+        } catch {
+            return null;
+        }
+    }
+
+    // Joins lines and escapes brackets so text can't end a link or callout header early
+    private escapeLinkText(text: string): string {
+        return text.replace(/\s*\n\s*/g, ' ').replace(/[[\]]/g, '\\$&');
+    }
+
+    // Replaces {{name}} placeholders; unknown placeholders are left as they are
+    private fillCaptureTemplate(template: string, values: Record<string, string>): string {
+        return template
+            .replace(/{{\s*(\w+)\s*}}/g, (placeholder, name: string) => values[name] ?? placeholder)
+            .replace(/\n{3,}/g, '\n\n')
+            .trim() + '\n';
+    }
+
+    /**
+     * The main text of a page: its article or main element (or the block with the most
+     * paragraph text) without navigation, banners, scripts and other page chrome, with
+     * relative links made absolute. Null if there's no text.
+     */
+    private extractReadableContent(html: string, url: string): HTMLElement | null {
+        if (!html) return null;
+        const doc = new DOMParser().parseFromString(html, 'text/html');
+        if (!doc.body) return null;
+
+        doc.body.querySelectorAll(NON_CONTENT_SELECTOR).forEach(el => el.remove());
+        const root = doc.body.querySelector<HTMLElement>('article, main, [role="main"]') ?? this.findMainContent(doc.body);
+        doc.body.querySelectorAll<HTMLElement>('[class], [id]').forEach(el => {
+            const name = `${typeof el.className === 'string' ? el.className : ''} ${el.id}`;
+            // Pages sometimes mark the whole article wrapper with these words, so the content
+            // and blocks holding real text are kept whatever they're called
+            if (BOILERPLATE_PATTERN.test(name) && !el.contains(root) && this.isBoilerplateBlock(el)) {
+                el.remove();
+            }
+        });
+
+        for (const [selector, attribute] of [['a[href]', 'href'], ['img[src]', 'src']]) {
+            root.querySelectorAll(selector).forEach(el => {
+                try {
+                    el.setAttribute(attribute, new URL(el.getAttribute(attribute) ?? '', url).href);
+                } catch {
+                    el.removeAttribute(attribute);
+                }
+            });
+        }
+        return root.textContent?.trim() ? root : null;
+    }
+
+    // Little text, or mostly link text like share buttons and related article lists
+    private isBoilerplateBlock(el: HTMLElement): boolean {
+        const length = el.textContent?.trim().length ?? 0;
+        if (length < BOILERPLATE_MAX_TEXT_LENGTH) return true;
+        const linkLength = Array.from(el.querySelectorAll('a'))
+            .reduce((total, link) => total + (link.textContent?.trim().length ?? 0), 0);
+        return linkLength / length > BOILERPLATE_MIN_LINK_DENSITY;
+    }
+
+    // Scores blocks by the paragraph text they contain, like readability tools do
+    private findMainContent(body: HTMLElement): HTMLElement {
+        const scores = new Map<HTMLElement, number>();
+        for (const paragraph of Array.from(body.querySelectorAll('p, pre, blockquote'))) {
+            const length = paragraph.textContent?.trim().length ?? 0;
+            // Captions, bylines and buttons
+            if (length < 25) continue;
+
+            const parent = paragraph.parentElement;
+            const grandparent = parent?.parentElement;
+            if (parent) scores.set(parent, (scores.get(parent) ?? 0) + length);
+            if (grandparent) scores.set(grandparent, (scores.get(grandparent) ?? 0) + length / 2);
+        }
+
+        let best = body;
+        let bestScore = 0;
+        for (const [el, score] of scores) {
+            if (score > bestScore) {
+                best = el;
+                bestScore = score;
+            }
+        }
+        return best;
+    }
+
+    private isFramingBlocked(headers: Record<string, string>): boolean {
+        const frameOptions = headers['x-frame-options']?.toLowerCase();
+        // SAMEORIGIN also blocks, since the app is never the page's origin
+        if (frameOptions && (frameOptions.includes('deny') || frameOptions.includes('sameorigin'))) {
+            return true;
+        }
+
+        const csp = headers['content-security-policy'];
+        const frameAncestors = csp?.split(';')
+            .map(directive => directive.trim().toLowerCase())
+            .find(directive => directive.startsWith('frame-ancestors'));
+        if (frameAncestors) {
+            const sources = frameAncestors.split(/\s+/).slice(1);
+            return !sources.some(source => source === '*' || source.startsWith('app:'));
+        }
+
+        return false;
+    }
+
+    private fetchPage(url: string): Promise<FetchedPage> {
+        return fetchPage(url, this.fetchForMetadata);
+    }
+
+    private async getPageMetadata(page: FetchedPage): Promise<PageMetadata> {
+        const metadata = await getPageMetadata(page, this.fetchForMetadata);
+        if (metadata.favicon) {
+            this.rememberFavicon(new URL(page.url).hostname, metadata.favicon);
+        }
+        return metadata;
+    }
+
+    // Error responses resolve, their status decides what the preview shows
+    private fetchForMetadata: PageFetcher = (url) => this.request({ url, throw: false });
+
+    private renderCard(container: HTMLElement, metadata: PageMetadata): HTMLElement {
+        const card = container.createDiv('preview-card');
+
+        if (metadata.image) {
+            const image = card.createEl('img', { cls: 'preview-card-image', attr: { src: metadata.image, alt: '' } });
+            image.onerror = () => image.remove();
+        }
+
+        const body = card.createDiv('preview-card-body');
+        const hostname = new URL(metadata.url).hostname;
+
+        const site = body.createDiv('preview-card-site');
+        if (metadata.favicon) {
+            const favicon = site.createEl('img', { cls: 'preview-card-favicon', attr: { src: metadata.favicon, alt: '' } });
+            favicon.onerror = () => favicon.remove();
+        }
+        site.createSpan({ text: metadata.siteName ?? hostname });
+
+        const title = body.createEl('a', {
+            cls: 'preview-card-title',
+            text: metadata.title ?? metadata.url,
+            href: metadata.url,
+        });
+        title.addEventListener('click', (e) => {
+            e.preventDefault();
+            window.open(metadata.url);
+        });
+
+        if (metadata.author) {
+            body.createDiv({ cls: 'preview-card-author', text: metadata.author });
+        }
+        if (metadata.description) {
+            body.createDiv({ cls: 'preview-card-description', text: metadata.description });
+        }
+        body.createDiv({ cls: 'preview-card-url', text: metadata.url });
+        return card;
+    }
+
+    // Cards keep the maximum width and shrink to the height of their text
+    private fitCardToContent(context: PreviewContext, card: HTMLElement) {
+        const measure = () => {
+            if (!card.isConnected) return;
+            card.addClass('is-measuring');
+            const height = card.getBoundingClientRect().height;
+            card.removeClass('is-measuring');
+            this.fitPreviewToContent(context, this.getMaxPreviewSize(context).width, height, false);
+        };
+        measure();
+        // The image arrives later and changes the height
+        card.querySelector('.preview-card-image')?.addEventListener('load', measure);
+    }
+
+    private cleanupTimeout?: number;
+    private nestedCleanupTimeout?: number;
+
+    private getAdapters(): PreviewAdapter[] {
+        const custom = this.settings.customAdapters
+            .map((rule, index) => this.createCustomAdapter(rule, index))
+            .filter((adapter): adapter is PreviewAdapter => adapter !== null);
+        const builtin = BUILTIN_ADAPTERS.filter(adapter => !this.settings.disabledAdapters.includes(adapter.id));
+        // User rules take precedence over other plugins' adapters, which take precedence over built-ins
+        return [...custom, ...this.registeredAdapters, ...builtin];
+    }
+
+    private createCustomAdapter(rule: CustomAdapterRule, index: number): PreviewAdapter | null {
+        if (!rule.pattern) return null;
+
+        let regex: RegExp;
+        try {
+            regex = new RegExp(rule.pattern);
+        } catch {
+            // Ignore invalid patterns rather than breaking every preview
+            return null;
+        }
+
+        return {
+            id: `custom-${index}`,
+            name: rule.pattern,
+            matches: (url) => regex.test(url.href),
+            rewriteUrl: rule.rewrite ? (url) => url.href.replace(regex, rule.rewrite) : undefined,
+            cropTop: rule.cropTop,
+            zoom: rule.zoom,
+        };
+    }
+
+    private resolveAdapter(url: string): { adapter?: PreviewAdapter, url: string } {
+        let parsed: URL;
+        try {
+            parsed = new URL(url);
+        } catch {
+            return { url };
+        }
+
+        // Adapters from other plugins may throw, which shouldn't break every preview
+        const adapter = this.getAdapters().find(a => {
+            try {
+                return a.matches(parsed);
+            } catch {
+                return false;
+            }
+        });
+        if (!adapter) return { url };
+
+        let rewritten: string | null = null;
+        try {
+            rewritten = adapter.rewriteUrl ? this.normalizeUrl(adapter.rewriteUrl(parsed)) : null;
+        } catch {
+            return { url };
+        }
+        return { adapter, url: rewritten ?? url };
+    }
+
+    private applyAdapterStyles(wrapper: HTMLElement, adapter?: PreviewAdapter) {
+        if (!adapter) return;
+
+        wrapper.dataset.adapter = adapter.id;
+        if (adapter.cropTop) {
+            wrapper.setCssProps({ '--preview-crop-top': `${adapter.cropTop}px` });
+        }
+        if (adapter.zoom && adapter.zoom > 0 && adapter.zoom !== 1) {
+            wrapper.setCssProps({ '--preview-zoom': String(adapter.zoom) });
+        }
+    }
+
+    private startCleanupTimer() {
+        if (this.cleanupTimeout) {
+            window.clearTimeout(this.cleanupTimeout);
+        }
+        this.cleanupTimeout = window.setTimeout(() => {
+            // Before cleanup, verify mouse isn't over preview OR the original link
+            if (this.activePreview && this.isMouseOverPreviewOrLink()) {
+                this.cleanupTimeout = undefined;
+                return;
+            }
+            this.cleanupActivePreview();
+            this.cleanupTimeout = undefined;
+        }, 300);
+    }
+
+    private isMouseOverPreviewOrLink(): boolean {
+        if (!this.activePreview) return false;
+
+        // Check preview bounds, including previews opened from it
+        if (this.getPreviewChain(this.activePreview.context).some(c => this.isMouseInRect(c.previewEl.getBoundingClientRect()))) {
+            return true;
+        }
+
+        // Check original link bounds
+        return this.isMouseInRect(this.activePreview.link.getBoundingClientRect());
+    }
+
+    private isMouseInRect(rect: DOMRect): boolean {
+        return this.lastMouseX >= rect.left &&
+            this.lastMouseX <= rect.right &&
+            this.lastMouseY >= rect.top &&
+            this.lastMouseY <= rect.bottom;
+    }
+
+    private startNestedCleanupTimer() {
+        if (this.activePreview?.profile?.sticky) return;
+        window.clearTimeout(this.nestedCleanupTimeout);
+        this.nestedCleanupTimeout = window.setTimeout(() => {
+            this.nestedCleanupTimeout = undefined;
+            this.closeNestedPreviewsOutsideMouse();
+        }, 300);
+    }
+
+    /**
+     * Closes the nested previews past the innermost one under the mouse. The link a nested
+     * preview is anchored to counts as part of it, so moving back to the link keeps it open.
+     */
+    private closeNestedPreviewsOutsideMouse() {
+        for (const root of this.getPreviewRoots()) {
+            const chain = this.getPreviewChain(root);
+            let keep = 0;
+            chain.forEach((context, index) => {
+                if (this.isMouseInRect(context.previewEl.getBoundingClientRect())
+                    || (context.parent && context.anchorRect && this.isMouseInRect(context.anchorRect))) {
+                    keep = index;
+                }
+            });
+            this.closeNestedPreview(chain[keep]);
+        }
+    }
+
+    // Escape closes the innermost nested preview, then the hover popup. Pinned panels stay open.
+    private closeInnermostPreview() {
+        for (const root of this.getPreviewRoots()) {
+            const chain = this.getPreviewChain(root);
+            if (chain.length > 1) {
+                this.closeNestedPreview(chain[chain.length - 2]);
+                return;
+            }
+        }
+        if (this.activePreview) {
+            this.cleanupActivePreview();
+        }
+    }
+
+    private cleanupActivePreview() {
+        if (this.activePreview) {
+            this.activePreview.cleanup();
+            this.activePreview = undefined;
+        }
+        if (this.domainHint) {
+            this.domainHint.remove();
+            this.domainHint = undefined;
+        }
+        if (this.hoverTimeout) {
+            window.clearTimeout(this.hoverTimeout);
+            this.hoverTimeout = undefined;
+        }
+        if (this.cleanupTimeout) {
+            window.clearTimeout(this.cleanupTimeout);
+            this.cleanupTimeout = undefined;
+        }
+        if (this.stillnessCheckTimeout) {
+            window.clearTimeout(this.stillnessCheckTimeout);
+            this.stillnessCheckTimeout = undefined;
+        }
+    }
+
+    /**
+     * Hovering needs at least the profile's modifier keys. Clicks and presses need exactly
+     * those, so other combinations (such as Ctrl/Cmd + click) keep opening the link.
+     */
+    private isModifierKeyPressed(profile: TriggerProfile, event: MouseEvent): boolean {
+        const keys = profile.modifierKeys;
+        const pressed: ModifierKeyConfig = { meta: event.metaKey, ctrl: event.ctrlKey, alt: event.altKey, shift: event.shiftKey };
+        return MODIFIER_KEY_TYPES.every(key => keys[key] ? pressed[key] : profile.action === 'hover' || !pressed[key]);
+    }
+
+    private isModifierKeyEvent(profile: TriggerProfile, event: KeyboardEvent): boolean {
+        const keys = profile.modifierKeys;
+        // Return true if any required modifier key is pressed or released
+        if (keys.meta && event.key === 'Meta') return true;
+        if (keys.ctrl && event.key === 'Control') return true;
+        if (keys.alt && event.key === 'Alt') return true;
+        if (keys.shift && event.key === 'Shift') return true;
+        return false;
+    }
+
+    private areAllModifiersPressed(profile: TriggerProfile): boolean {
+        const keys = profile.modifierKeys;
+        // Check if ALL required modifiers are currently pressed (using tracked state)
+        if (keys.meta && !this.modifierState.meta) return false;
+        if (keys.ctrl && !this.modifierState.ctrl) return false;
+        if (keys.alt && !this.modifierState.alt) return false;
+        if (keys.shift && !this.modifierState.shift) return false;
+        // At least one modifier must be required
+        return keys.meta || keys.ctrl || keys.alt || keys.shift;
+    }
+
+    private handleModifierKeyDown(event: KeyboardEvent) {
+        // Find element under cursor, its profile decides which keys matter
+        const elementUnderCursor = this.lastMouseDocument.elementFromPoint(this.lastMouseX, this.lastMouseY);
+        if (!elementUnderCursor) return;
+
+        const profile = this.getTriggerProfile(elementUnderCursor);
+        if (profile?.action !== 'hover' || !this.isModifierKeyEvent(profile, event)) return;
+
+        // Check if ALL required modifiers are now pressed
+        if (!this.areAllModifiersPressed(profile)) return;
+
+        if (!event.repeat) {
+            this.prefetchVisibleLinks();
+        }
+
+        // If already showing a preview, do nothing
+        if (this.activePreview) return;
+
+        const linkInfo = this.findLinkElement(elementUnderCursor, null);
+        if (linkInfo) {
+            // Clear any existing timeout and show preview after delay
+            if (this.hoverTimeout) {
+                window.clearTimeout(this.hoverTimeout);
+            }
+            this.hoverTimeout = window.setTimeout(() => {
+                this.tryShowPreview(linkInfo.element, linkInfo.url, profile);
+            }, this.getHoverDelay(profile, linkInfo.url));
+        }
+    }
+
+    private handleModifierKeyUp(event: KeyboardEvent) {
+        // Close preview when any required modifier key is released (unless sticky popup is enabled)
+        const profile = this.activePreview?.profile;
+        if (!profile?.closeOnModifierRelease || profile.sticky || !this.isModifierKeyEvent(profile, event)) return;
+        if (!this.areAllModifiersPressed(profile)) {
+            this.cleanupActivePreview();
+        }
+    }
+
+    /**
+     * The profile for where `el` is, or undefined when that context has previews off.
+     * Links inside the hover popup follow the profile that opened it.
+     */
+    private getTriggerProfile(el: Element): TriggerProfile | undefined {
+        // The "Try it" link in the settings uses the profile being edited
+        const profileId = el.closest<HTMLElement>('[data-trigger-profile]')?.dataset.triggerProfile;
+        if (profileId) {
+            return this.settings.triggerProfiles.find(profile => profile.id === profileId);
+        }
+
+        if (!this.settings.hoverEnabled) return undefined;
+        if (this.activePreview && this.isInsideActivePreview(el)) {
+            return this.activePreview.profile;
+        }
+
+        const id = this.settings.contextProfiles[this.getTriggerContext(el)];
+        return this.settings.triggerProfiles.find(profile => profile.id === id);
+    }
+
+    private getTriggerContext(el: Element): TriggerContext {
+        // Canvas text cards contain editors and reading views of their own
+        if (el.closest('.canvas-wrapper')) return 'canvas';
+
+        const editorEl = el.closest('.cm-editor');
+        if (editorEl?.instanceOf(HTMLElement)) {
+            const view = EditorView.findFromDOM(editorEl);
+            return view?.state.field(editorLivePreviewField, false) ? 'live-preview' : 'source';
+        }
+
+        if (el.closest('.markdown-reading-view, .markdown-preview-view')) return 'reading';
+        return 'other';
+    }
+
+    async loadSettings() {
+        const loaded = (await this.loadData()) as (Partial<LinkPreviewSettings> & LegacyLinkPreviewSettings) | null;
+
+        this.settings = {
+            ...DEFAULT_SETTINGS,
+            ...loaded,
+            triggerProfiles: loaded?.triggerProfiles ?? createDefaultTriggerProfiles(),
+            contextProfiles: { ...DEFAULT_SETTINGS.contextProfiles, ...loaded?.contextProfiles },
+        };
+
+        if (loaded && !loaded.triggerProfiles) {
+            this.migrateTriggerSettings(loaded);
+        }
+
+        // Don't share array defaults between loads
+        this.settings.disabledAdapters = [...this.settings.disabledAdapters];
+        this.settings.disabledSurfaces = [...this.settings.disabledSurfaces];
+        this.settings.customAdapters = this.settings.customAdapters.map(rule => ({ ...DEFAULT_CUSTOM_ADAPTER, ...rule }));
+        this.settings.allowedDomains = [...this.settings.allowedDomains];
+        this.settings.deniedDomains = [...this.settings.deniedDomains];
+        this.settings.shortLinkDomains = [...this.settings.shortLinkDomains];
+        this.settings.domainRules = this.settings.domainRules.map(rule => ({ ...DEFAULT_DOMAIN_RULE, ...rule }));
+        this.settings.triggerProfiles = this.settings.triggerProfiles.map(profile => ({ ...profile, modifierKeys: { ...profile.modifierKeys } }));
+
+        // Clean up legacy fields if present
+        const legacyKeys = LEGACY_SETTING_KEYS.filter(key => key in this.settings);
+        if (legacyKeys.length > 0) {
+            for (const key of legacyKeys) {
+                delete (this.settings as LinkPreviewSettings & LegacyLinkPreviewSettings)[key];
+            }
+            await this.saveSettings();
+        }
+    }
+
+    // The global trigger settings from before profiles become a built-in profile used everywhere
+    private migrateTriggerSettings(legacy: LegacyLinkPreviewSettings) {
+        const requireModifierKey = legacy.requireModifierKey ?? true;
+        const profile = this.settings.triggerProfiles.find(p => p.id === (requireModifierKey ? 'modifier-hover' : 'hover'));
+        if (!profile) return;
+
+        if (legacy.modifierKeys) {
+            profile.modifierKeys = { ...legacy.modifierKeys };
+        } else if (legacy.modifierKey) {
+            // Migrate from old single key format
+            profile.modifierKeys = { ...DEFAULT_MODIFIER_KEYS, [legacy.modifierKey]: true };
+        }
+        if (!requireModifierKey) {
+            profile.modifierKeys = { ...DEFAULT_MODIFIER_KEYS };
+        }
+        profile.delay = legacy.hoverDelay ?? profile.delay;
+        profile.stillnessDelay = legacy.mouseStillnessDelay ?? profile.stillnessDelay;
+        profile.closeOnModifierRelease = legacy.closeOnModifierRelease ?? profile.closeOnModifierRelease;
+        profile.sticky = legacy.stickyPopup ?? profile.sticky;
+
+        for (const { id } of TRIGGER_CONTEXTS) {
+            this.settings.contextProfiles[id] = profile.id;
+        }
+    }
+
+    async saveSettings() {
+        await this.saveData(this.settings);
+    }
+
+    // For settings that change what a preview shows, cached previews would still show the old one
+    async savePreviewSettings() {
+        await this.saveSettings();
+        this.clearCache();
+    }
+
+    onunload() {
+        this.cancelLongPress();
+        window.clearTimeout(this.nestedCleanupTimeout);
+        this.cleanupActivePreview();
+        this.closeAllPinnedPanels();
+        this.previewCache.clear();
+        // Write changes still waiting for their debounce
+        for (const store of [this.pinnedBounds, this.zoomLevels, this.scrollPositions, this.favicons, this.failedLinks]) {
+            store.flush();
+        }
+    }
+
+    private createPreviewElement(): HTMLElement {
+        return createEl('div', { cls: 'hover-popup' });
+    }
+
+    // Zoom is remembered per domain, local links share one level per kind of link
+    private getZoomKey(url: string): string {
+        const kind = this.getLinkKind(url);
+        if (kind !== 'web') return kind;
+        try {
+            return new URL(url).hostname;
+        } catch {
+            return url;
+        }
+    }
+
+    private setZoom(context: PreviewContext, zoom: number) {
+        context.zoom = Math.round(Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom)) * 100) / 100;
+        this.applyZoom(context);
+
+        if (this.settings.rememberZoomAndScroll) {
+            const key = this.getZoomKey(context.url);
+            if (context.zoom === 1) {
+                this.zoomLevels.delete(key);
+            } else {
+                this.zoomLevels.set(key, context.zoom);
+            }
+        }
+    }
+
+    /**
+     * Frames are scaled along with the site adapter's zoom, other content uses CSS zoom
+     * so it reflows to the popup width.
+     */
+    private applyZoom(context: PreviewContext) {
+        const el = context.previewEl;
+        el.setCssProps({ '--preview-user-zoom': String(context.zoom) });
+
+        const wrapper = el.querySelector<HTMLElement>('.preview-iframe-wrapper');
+        if (wrapper) {
+            const zoom = (context.adapter?.zoom && context.adapter.zoom > 0 ? context.adapter.zoom : 1) * context.zoom;
+            wrapper.setCssProps({ '--preview-zoom': String(zoom) });
+            wrapper.toggleClass('is-zoomed', zoom !== 1);
+        }
+
+        const level = el.querySelector('.preview-zoom-level');
+        level?.setText(`${Math.round(context.zoom * 100)}%`);
+    }
+
+    forgetZoomAndScroll() {
+        this.zoomLevels.clear();
+        this.scrollPositions.clear();
+    }
+
+    private saveScrollPosition(url: string, scrollTop: number) {
+        if (!this.settings.rememberZoomAndScroll) return;
+
+        if (scrollTop > 0) {
+            this.scrollPositions.set(url, Math.round(scrollTop));
+        } else {
+            this.scrollPositions.delete(url);
+        }
+    }
+
+    // Cross-origin frames don't expose their scroll position, so only native content is restored
+    private restoreScrollPosition(context: PreviewContext) {
+        const scrollTop = this.settings.rememberZoomAndScroll ? this.scrollPositions.get(context.url) : undefined;
+        if (!scrollTop) return;
+
+        const content = context.previewEl.querySelector<HTMLElement>(SCROLLABLE_CONTENT_SELECTOR);
+        if (content) content.scrollTop = scrollTop;
+    }
+
+    hasLinkAnnotations(): boolean {
+        return this.settings.showLinkFavicons || this.settings.showLinkDomains || this.settings.markFailedLinks;
+    }
+
+    // Redraws annotations in open notes after settings or failed links change
+    refreshLinkAnnotations = debounce(() => {
+        this.app.workspace.iterateAllLeaves(leaf => {
+            if (!(leaf.view instanceof MarkdownView)) return;
+            this.getEditorView(leaf.view.editor)?.dispatch({ effects: refreshAnnotationsEffect.of(null) });
+            leaf.view.previewMode.rerender(true);
+        });
+    }, 500, true);
+
+    private shouldAnnotateLink(url: string): boolean {
+        if (this.getLinkKind(url) !== 'web' || this.getDomainPolicy(url).denied) return false;
+        return this.settings.showLinkFavicons || this.settings.showLinkDomains
+            || (this.settings.markFailedLinks && this.failedLinks.has(url));
+    }
+
+    // Changes whenever the annotation of `url` would render differently
+    private getLinkAnnotationKey(url: string): string {
+        const { showLinkFavicons, showLinkDomains, markFailedLinks } = this.settings;
+        const failedAt = markFailedLinks ? this.failedLinks.get(url) : undefined;
+        return [url, showLinkFavicons, showLinkDomains, failedAt].join('|');
+    }
+
+    private createLinkAnnotation(url: string, doc: Document = document): HTMLElement {
+        const hostname = new URL(url).hostname;
+        const annotation = doc.createElement('span');
+        annotation.addClass('preview-link-annotation');
+
+        if (this.settings.showLinkFavicons) {
+            const favicon = this.getFaviconUrl(hostname);
+            const showGlobe = () => setIcon(annotation.createSpan({ cls: 'preview-link-annotation-icon' }), 'globe');
+            if (favicon) {
+                const referrerPolicy = PRIVACY_PROFILES[this.settings.privacyProfile].referrerPolicy;
+                const image = annotation.createEl('img', {
+                    cls: 'preview-link-annotation-favicon',
+                    attr: { src: favicon, alt: '', loading: 'lazy', ...(referrerPolicy ? { referrerpolicy: referrerPolicy } : {}) },
+                });
+                image.onerror = () => {
+                    // Not saved, the error may be temporary
+                    this.missingFavicons.add(hostname);
+                    image.remove();
+                    showGlobe();
+                };
+            } else {
+                showGlobe();
+            }
+        }
+
+        if (this.settings.showLinkDomains) {
+            annotation.createSpan({ cls: 'preview-link-annotation-domain', text: hostname.replace(/^www\./, '') });
+        }
+
+        const failedAt = this.settings.markFailedLinks ? this.failedLinks.get(url) : undefined;
+        if (failedAt !== undefined) {
+            annotation.addClass('is-failed');
+            setIcon(annotation.createSpan({ cls: 'preview-link-annotation-icon' }), 'link-2-off');
+            setTooltip(annotation, `Failed to load ${moment(failedAt).fromNow()}`);
+        }
+        return annotation;
+    }
+
+    // Annotates the rendered links of a note in Reader mode, found the way hovering finds them
+    private annotateRenderedLinks(el: HTMLElement) {
+        const surface = LINK_SURFACES.find(s => s.id === 'reading');
+        if (!this.hasLinkAnnotations() || !surface || this.settings.disabledSurfaces.includes(surface.id)) return;
+
+        const annotated = new Set<HTMLElement>();
+        for (const candidate of Array.from(el.querySelectorAll(LINK_SELECTOR))) {
+            const link = this.findLinkElement(candidate, null, surface);
+            if (!link || annotated.has(link.element) || !this.shouldAnnotateLink(link.url)) continue;
+
+            annotated.add(link.element);
+            link.element.insertAdjacentElement('afterend', this.createLinkAnnotation(link.url, el.ownerDocument));
+        }
+    }
+
+    private createLinkAnnotationExtension(): Extension {
+        const build = (view: EditorView) => this.buildLinkAnnotations(view);
+        return ViewPlugin.fromClass(class {
+            decorations: DecorationSet;
+            private rebuild: Debouncer<[], void>;
+
+            constructor(view: EditorView) {
+                this.decorations = build(view);
+                this.rebuild = debounce(() => view.dispatch({ effects: refreshAnnotationsEffect.of(null) }), LINK_ANNOTATION_REBUILD_DELAY, true);
+            }
+
+            update(update: ViewUpdate) {
+                const modeChanged = update.startState.field(editorLivePreviewField, false) !== update.state.field(editorLivePreviewField, false);
+                const refreshed = update.transactions.some(tr => tr.effects.some(effect => effect.is(refreshAnnotationsEffect)));
+                if (modeChanged || refreshed) {
+                    this.decorations = build(update.view);
+                } else if (update.docChanged) {
+                    // Parsing the visible links on every keystroke is too slow in long notes
+                    this.decorations = this.decorations.map(update.changes);
+                    this.rebuild();
+                } else if (update.viewportChanged) {
+                    this.decorations = build(update.view);
+                }
+            }
+
+            destroy() {
+                this.rebuild.cancel();
+            }
+        }, { decorations: value => value.decorations });
+    }
+
+    // Annotates the visible links in Live Preview, found the way the link commands find them
+    private buildLinkAnnotations(view: EditorView): DecorationSet {
+        if (!this.hasLinkAnnotations() || this.settings.disabledSurfaces.includes('editor')
+            || !view.state.field(editorLivePreviewField, false)) {
+            return Decoration.none;
+        }
+
+        const sourcePath = view.state.field(editorInfoField, false)?.file?.path;
+        const builder = new RangeSetBuilder<Decoration>();
+        let last = -1;
+        for (const range of view.visibleRanges) {
+            for (const link of this.collectLinks(view.state, sourcePath, range.from, range.to)) {
+                // Visible ranges can share a line
+                if (link.to <= last || !this.shouldAnnotateLink(link.url)) continue;
+                last = link.to;
+                const widget = new LinkAnnotationWidget(this.getLinkAnnotationKey(link.url), (doc) => this.createLinkAnnotation(link.url, doc));
+                builder.add(link.to, link.to, Decoration.widget({ widget, side: 1 }));
+            }
+        }
+        return builder.finish();
+    }
+
+    // Found in page metadata when a card loads, otherwise guessed at the conventional path
+    private getFaviconUrl(hostname: string): string | null {
+        if (this.missingFavicons.has(hostname)) return null;
+        return this.favicons.get(hostname) || `https://${hostname}/favicon.ico`;
+    }
+
+    private rememberFavicon(hostname: string, url: string) {
+        this.missingFavicons.delete(hostname);
+        if (this.favicons.get(hostname) !== url) {
+            this.favicons.set(hostname, url);
+        }
+    }
+
+    forgetFailedLinks() {
+        this.failedLinks.clear();
+    }
+
+    // Remembers which links failed to load, keyed by the link rather than where it redirected
+    private recordLoadResult(context: PreviewContext, failed: boolean) {
+        if (!this.settings.markFailedLinks) return;
+
+        const url = context.redirectedFrom ?? context.url;
+        const wasFailed = this.failedLinks.has(url);
+        if (failed) {
+            this.failedLinks.set(url, Date.now());
+        } else {
+            this.failedLinks.delete(url);
+        }
+        if (failed !== wasFailed) {
+            this.refreshLinkAnnotations();
+        }
+    }
+
+    private getMaxPreviewSize(context: PreviewContext): { width: number, height: number } {
+        return {
+            width: context.domainRule?.maxWidth || this.settings.maxPreviewWidth,
+            height: context.domainRule?.maxHeight || this.settings.maxPreviewHeight,
+        };
+    }
+
+    private positionPreviewElement(context: PreviewContext, rect: DOMRect) {
+        const el = context.previewEl;
+        const win = el.ownerDocument.defaultView ?? window;
+        const windowSize = {
+            width: win.innerWidth,
+            height: win.innerHeight
+        };
+        // Content that reported a smaller natural size shrinks the popup
+        const maxSize = context.contentSize ?? this.getMaxPreviewSize(context);
+
+        if (context.touchLayout === 'sheet') {
+            const height = Math.min(maxSize.height, Math.round(windowSize.height * TOUCH_SHEET_HEIGHT));
+            el.setCssStyles({
+                left: '0px',
+                top: `${windowSize.height - height}px`,
+                width: `${windowSize.width}px`,
+                height: `${height}px`,
+            });
+            return;
+        }
+
+        // Touch popups span the window width, fingers are less precise than a pointer
+        const touchSize = { width: windowSize.width, height: maxSize.height };
+        const bounds = this.calculatePreviewBounds(rect, windowSize, context.touchLayout === 'popup' ? touchSize : maxSize);
+        
+        el.setCssStyles({
+            left: `${bounds.left}px`,
+            top: `${bounds.top}px`,
+            width: `${bounds.width}px`,
+            height: `${bounds.height}px`,
+        });
+        el.dataset.placement = bounds.placement;
+
+        if (context.arrowEl) {
+            const vertical = bounds.placement === 'above' || bounds.placement === 'below';
+            const center = {
+                x: vertical ? bounds.left + bounds.arrowOffset : bounds.placement === 'right' ? bounds.left : bounds.left + bounds.width,
+                y: vertical ? (bounds.placement === 'below' ? bounds.top : bounds.top + bounds.height) : bounds.top + bounds.arrowOffset,
+            };
+            context.arrowEl.dataset.placement = bounds.placement;
+            context.arrowEl.setCssStyles({
+                left: `${center.x - ARROW_SIZE / 2}px`,
+                top: `${center.y - ARROW_SIZE / 2}px`,
+            });
+        }
+    }
+
+    /**
+     * Places the popup below or above the link, or beside it when neither fits, without
+     * covering the link. When nothing fits the popup shrinks into the largest free side.
+     * `arrowOffset` is where the arrow meets the popup edge, from its left or top.
+     */
+    private calculatePreviewBounds(rect: DOMRect, windowSize: { width: number, height: number }, maxSize: { width: number, height: number }): {
+        left: number,
+        top: number,
+        width: number,
+        height: number,
+        placement: PreviewPlacement,
+        arrowOffset: number
+    } {
+        const margin = 5; // Margin from edges
+        const gap = ARROW_SIZE; // Room for the arrow between link and popup
+        const maxWidth = Math.min(maxSize.width, windowSize.width - margin * 2);
+        const maxHeight = Math.min(maxSize.height, windowSize.height - margin * 2);
+
+        const space: Record<PreviewPlacement, number> = {
+            below: windowSize.height - rect.bottom - gap - margin,
+            above: rect.top - gap - margin,
+            right: windowSize.width - rect.right - gap - margin,
+            left: rect.left - gap - margin,
+        };
+
+        const order: PreviewPlacement[] = ['below', 'above', 'right', 'left'];
+        const isVertical = (p: PreviewPlacement) => p === 'below' || p === 'above';
+        let placement = order.find(p => space[p] >= (isVertical(p) ? maxHeight : maxWidth));
+        if (!placement) {
+            // Nothing fits: use the side that leaves the largest popup
+            const area = (p: PreviewPlacement) => isVertical(p)
+                ? maxWidth * Math.min(maxHeight, space[p])
+                : Math.min(maxWidth, space[p]) * maxHeight;
+            placement = order.reduce((best, p) => area(p) > area(best) ? p : best);
+        }
+
+        const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(value, max));
+        let left: number, top: number, width: number, height: number, arrowOffset: number;
+
+        if (isVertical(placement)) {
+            width = maxWidth;
+            height = Math.max(0, Math.min(maxHeight, space[placement]));
+            top = placement === 'below' ? rect.bottom + gap : rect.top - gap - height;
+            left = clamp(rect.left, margin, windowSize.width - width - margin);
+            arrowOffset = rect.left + Math.min(rect.width, width) / 2 - left;
+        } else {
+            width = Math.max(0, Math.min(maxWidth, space[placement]));
+            height = maxHeight;
+            left = placement === 'right' ? rect.right + gap : rect.left - gap - width;
+            top = clamp(rect.top + rect.height / 2 - height / 2, margin, windowSize.height - height - margin);
+            arrowOffset = rect.top + rect.height / 2 - top;
+        }
+
+        // Keep the arrow clear of the rounded corners
+        const edge = isVertical(placement) ? width : height;
+        arrowOffset = clamp(arrowOffset, ARROW_SIZE * 2, edge - ARROW_SIZE * 2);
+
+        return { left, top, width, height, placement, arrowOffset };
+    }
+
+    // Buttons read context.url when clicked, it changes as the popup navigates
+    private createButtons(context: PreviewContext) {
+        const container = context.previewEl;
+        const navigationBar = container.querySelector<HTMLElement>('.preview-nav-bar');
+        const buttons = (navigationBar ?? container).createDiv('preview-buttons');
+
+        if (this.settings.showZoomButtons) {
+            const zoomOutBtn = buttons.createEl('button', { cls: 'clickable-icon' });
+            setIcon(zoomOutBtn, 'zoom-out');
+            setTooltip(zoomOutBtn, 'Zoom out');
+            zoomOutBtn.addEventListener('click', (e) => {
+                e.stopPropagation();
+                this.setZoom(context, context.zoom / ZOOM_STEP);
+            });
+
+            const levelBtn = buttons.createEl('button', { cls: 'clickable-icon preview-zoom-level' });
+            setTooltip(levelBtn, 'Reset zoom');
+            levelBtn.addEventListener('click', (e) => {
+                e.stopPropagation();
+                this.setZoom(context, 1);
+            });
+
+            const zoomInBtn = buttons.createEl('button', { cls: 'clickable-icon' });
+            setIcon(zoomInBtn, 'zoom-in');
+            setTooltip(zoomInBtn, 'Zoom in');
+            zoomInBtn.addEventListener('click', (e) => {
+                e.stopPropagation();
+                this.setZoom(context, context.zoom * ZOOM_STEP);
+            });
+        }
+
+        if (this.settings.showOpenInBrowser) {
+            const openBtn = buttons.createEl('button', { cls: 'clickable-icon' });
+            setIcon(openBtn, 'external-link');
+            setTooltip(openBtn, 'Open in external browser');
+            openBtn.addEventListener('click', (e) => {
+                e.stopPropagation();
+                window.open(context.url);
+            });
+        }
+
+        if (this.settings.showOpenInView) {
+            const viewBtn = buttons.createEl('button', { cls: 'clickable-icon' });
+            setIcon(viewBtn, 'panel-right-open');
+            setTooltip(viewBtn, 'Open in Obsidian');
+            viewBtn.addEventListener('click', (e) => {
+                e.stopPropagation();
+                const menu = new Menu();
+                menu.addItem(item => item
+                    .setTitle('Open in new tab')
+                    .setIcon('file-plus')
+                    .onClick(() => void this.openUrlInView(context.url, 'tab')));
+                menu.addItem(item => item
+                    .setTitle('Open to the right')
+                    .setIcon('separator-vertical')
+                    .onClick(() => void this.openUrlInView(context.url, 'split')));
+                menu.addItem(item => item
+                    .setTitle('Open in right sidebar')
+                    .setIcon('panel-right')
+                    .onClick(() => void this.openUrlInView(context.url, 'sidebar')));
+                menu.showAtMouseEvent(e);
+            });
+        }
+
+        if (this.settings.showPinButton) {
+            const pinBtn = buttons.createEl('button', { cls: 'clickable-icon preview-pin-button' });
+            setIcon(pinBtn, 'pin');
+            setTooltip(pinBtn, 'Pin preview');
+            pinBtn.addEventListener('click', (e) => {
+                e.stopPropagation();
+                if (this.activePreview?.element === container) {
+                    this.pinActivePreview();
+                }
+            });
+        }
+
+        if (this.settings.showCaptureButton && this.getLinkKind(context.url) === 'web') {
+            const captureBtn = buttons.createEl('button', { cls: 'clickable-icon' });
+            setIcon(captureBtn, 'scissors');
+            setTooltip(captureBtn, 'Save to vault');
+            captureBtn.addEventListener('click', (e) => {
+                e.stopPropagation();
+                void this.capturePage(context.url, context.sourcePath);
+            });
+        }
+
+        if (this.settings.showCloseButton) {
+            const closeBtn = buttons.createEl('button', { cls: 'clickable-icon' });
+            setIcon(closeBtn, 'x');
+            setTooltip(closeBtn, 'Close preview');
+            closeBtn.addEventListener('click', (e) => {
+                e.stopPropagation();
+                const panel = this.pinnedPanels.find(p => p.context.previewEl === container);
+                if (panel) {
+                    panel.close();
+                } else if (context.parent) {
+                    this.closeNestedPreview(context.parent);
+                } else {
+                    this.cleanupActivePreview();
+                }
+            });
+        }
+    }
+
+    private createNavigationBar(context: PreviewContext) {
+        const bar = context.previewEl.createDiv('preview-nav-bar');
+        const addButton = (cls: string, icon: string, tooltip: string, onClick: () => void) => {
+            const button = bar.createEl('button', { cls: `clickable-icon ${cls}` });
+            setIcon(button, icon);
+            setTooltip(button, tooltip);
+            button.addEventListener('click', (e) => {
+                e.stopPropagation();
+                onClick();
+            });
+        };
+
+        addButton('preview-nav-back', 'arrow-left', 'Back', () => this.goInPreview(context, -1));
+        addButton('preview-nav-forward', 'arrow-right', 'Forward', () => this.goInPreview(context, 1));
+        addButton('preview-nav-reload', 'rotate-cw', 'Reload', () => this.loadPreviewUrl(context, context.url));
+
+        const address = bar.createDiv('preview-nav-url');
+        address.addEventListener('click', (e) => {
+            e.stopPropagation();
+            void navigator.clipboard.writeText(context.url).then(() => new Notice('URL copied'));
+        });
+        this.updateNavigationBar(context);
+    }
+
+    private updateNavigationBar(context: PreviewContext) {
+        const el = context.previewEl;
+        const back = el.querySelector<HTMLButtonElement>('.preview-nav-back');
+        const forward = el.querySelector<HTMLButtonElement>('.preview-nav-forward');
+        const address = el.querySelector<HTMLElement>('.preview-nav-url');
+        if (back) back.disabled = context.historyIndex <= 0 && !context.frameNavigated;
+        if (forward) forward.disabled = context.historyIndex >= context.history.length - 1;
+        if (address) {
+            address.setText(context.url);
+            address.toggleClass('is-stale', context.frameNavigated === true);
+            setTooltip(address, context.frameNavigated
+                ? 'The page followed a link whose address is not visible. Click to copy the last known URL.'
+                : 'Copy URL');
+        }
+        el.querySelector('.preview-pin-title')?.setText(context.url);
+    }
+
+    // Opens `url` in the popup and drops the forward history, like a browser
+    private navigatePreview(context: PreviewContext, url: string) {
+        context.history = context.history.slice(0, context.historyIndex + 1);
+        context.history.push(url);
+        context.historyIndex = context.history.length - 1;
+        this.loadPreviewUrl(context, url);
+    }
+
+    private goInPreview(context: PreviewContext, delta: number) {
+        // Back from a page the frame navigated to returns to the page it was showing
+        if (delta < 0 && context.frameNavigated) {
+            this.loadPreviewUrl(context, context.url);
+            return;
+        }
+        const index = context.historyIndex + delta;
+        if (index < 0 || index >= context.history.length) return;
+        context.historyIndex = index;
+        this.loadPreviewUrl(context, context.history[index]);
+    }
+
+    private loadPreviewUrl(context: PreviewContext, url: string) {
+        this.closeNestedPreview(context);
+        Object.assign(context, this.getPreviewTarget(url));
+        context.frameNavigated = false;
+        context.redirectedFrom = undefined;
+        context.linkText = undefined;
+        context.previewEl.querySelector('.preview-redirect')?.remove();
+        context.previewEl.dataset.url = url;
+
+        // Grow back to the maximum size until the new content reports its own
+        context.contentSize = undefined;
+        if (context.anchorRect && !context.previewEl.hasClass('is-pinned')) {
+            this.positionPreviewElement(context, context.anchorRect);
+        }
+
+        this.startPreview(context);
+        this.updateNavigationBar(context);
+    }
+
+    /**
+     * Follows links in content the plugin renders itself according to linkClickAction.
+     * Ctrl/Cmd-click always opens the system browser. Links inside frames can't be intercepted.
+     */
+    private handlePreviewLinkClick(context: PreviewContext, event: MouseEvent) {
+        const target = event.targetNode;
+        if (!target?.instanceOf(Element) || !target.closest(NAVIGABLE_CONTENT_SELECTOR)) return;
+
+        const link = target.closest<HTMLElement>('a[href]');
+        const url = link ? this.normalizeUrl(link.getAttribute('href') ?? '') : null;
+        // Internal links in rendered notes keep Obsidian's handling
+        if (!link || !url || this.getLinkKind(url) !== 'web') return;
+
+        event.preventDefault();
+        event.stopPropagation();
+
+        // The card title links to the page the popup already shows
+        const action = event.ctrlKey || event.metaKey || this.getDomainPolicy(url).denied || isSameDestination(url, context.url)
+            ? 'browser'
+            : this.settings.linkClickAction;
+        if (action === 'navigate') {
+            this.navigatePreview(context, url);
+        } else if (action === 'preview') {
+            this.openNestedPreview(context, link, url);
+        } else {
+            window.open(url);
+        }
+    }
+
+    // Opens a popup anchored to a link inside `parent`, replacing any it already has open
+    private openNestedPreview(parent: PreviewContext, link: HTMLElement, url: string) {
+        if (parent.child?.url === url) return;
+        this.closeNestedPreview(parent);
+
+        const doc = parent.previewEl.ownerDocument;
+        const context = this.takeOrCreatePreview(url, doc);
+        context.sourcePath = parent.sourcePath;
+        context.linkText = link.textContent ?? undefined;
+        context.parent = parent;
+        parent.child = context;
+
+        // Each level stacks above the previous one
+        let depth = 0;
+        for (let ancestor: PreviewContext | undefined = context.parent; ancestor; ancestor = ancestor.parent) depth++;
+        context.arrowEl = doc.body.createDiv('hover-popup-arrow is-nested');
+        context.arrowEl.setCssProps({ '--preview-depth': String(depth) });
+        context.previewEl.addClass('is-nested');
+        context.previewEl.setCssProps({ '--preview-depth': String(depth) });
+
+        context.anchorRect = link.getBoundingClientRect();
+        this.positionPreviewElement(context, context.anchorRect);
+        context.previewEl.removeClass('is-cached');
+        this.app.workspace.trigger('url-preview:open', url, context.previewEl);
+    }
+
+    // Closes the preview opened from `parent`, and the ones opened from it
+    private closeNestedPreview(parent: PreviewContext) {
+        const child = parent.child;
+        if (!child) return;
+
+        parent.child = undefined;
+        child.parent = undefined;
+        child.arrowEl?.remove();
+        child.arrowEl = undefined;
+        child.anchorRect = undefined;
+        child.previewEl.removeClass('is-nested');
+        this.releasePreview(child);
+        this.app.workspace.trigger('url-preview:close', child.url, child.previewEl);
+    }
+
+    async openUrlInView(url: string, target: 'tab' | 'split' | 'sidebar') {
+        const leaf = target === 'sidebar'
+            ? this.app.workspace.getRightLeaf(false)
+            : this.app.workspace.getLeaf(target);
+        if (!leaf) return;
+
+        if (this.activePreview?.context.url === url) {
+            this.cleanupActivePreview();
+        }
+
+        await leaf.setViewState({ type: VIEW_TYPE_URL_PREVIEW, active: true, state: { url } });
+        await this.app.workspace.revealLeaf(leaf);
+    }
+
+    /**
+     * Renders a preview of `url` into an existing container, with the same adapters,
+     * loading checks and error handling as the popup.
+     */
+    // `previous` is the context last rendered into the same element, its pending work is dropped
+    renderPreviewInto(containerEl: HTMLElement, url: string, previous?: PreviewContext): PreviewContext {
+        if (previous) {
+            previous.generation++;
+            previous.component.unload();
+        }
+        const context = this.createPreviewContext(containerEl, url);
+        this.startPreview(context);
+        return context;
+    }
+
+    private getEditorView(editor: Editor): EditorView | null {
+        // Obsidian's Editor wraps a CodeMirror 6 view but doesn't expose it in the API
+        return (editor as Editor & { cm?: EditorView }).cm ?? null;
+    }
+
+    private showPreviewAtPos(cm: EditorView, pos: number, url: string) {
+        cm.requestMeasure({
+            read: () => cm.coordsAtPos(pos),
+            write: (coords) => {
+                if (!coords) return;
+                const { node } = cm.domAtPos(pos);
+                const anchor = node.instanceOf(HTMLElement) ? node : node.parentElement ?? cm.contentDOM;
+                const rect = new DOMRect(coords.left, coords.top, coords.right - coords.left, coords.bottom - coords.top);
+                this.cleanupActivePreview();
+                this.showPreview(anchor, url, rect);
+            },
+        });
+    }
+
+    private previewAdjacentLink(checking: boolean, editor: Editor, direction: 1 | -1, sourcePath?: string): boolean {
+        const cm = this.getEditorView(editor);
+        if (!cm || !mayContainLinks(editor.getValue())) return false;
+        // The command palette checks every command while typing, parsing waits until it runs
+        if (checking) return true;
+
+        const links = this.collectLinks(cm.state, sourcePath);
+        if (links.length === 0) return false;
+
+        const cursor = editor.posToOffset(editor.getCursor());
+        // Wrap around at the start and end of the note
+        const target = direction === 1
+            ? links.find(link => link.from > cursor) ?? links[0]
+            : [...links].reverse().find(link => link.from < cursor) ?? links[links.length - 1];
+
+        editor.setCursor(editor.offsetToPos(target.from));
+        editor.scrollIntoView({ from: editor.offsetToPos(target.from), to: editor.offsetToPos(target.to) }, true);
+        this.showPreviewAtPos(cm, target.from, target.url);
+        return true;
+    }
+
+    /**
+     * Requests a link (HEAD, or GET for servers without HEAD) and reports its status, response
+     * time and whether it can be embedded. HTTP redirects are followed and reported on desktop.
+     */
+    private async checkLink(url: string): Promise<LinkCheckResult> {
+        const start = performance.now();
+        const timeout = this.settings.loadTimeout || DEFAULT_SETTINGS.loadTimeout;
+        try {
+            let hops: RedirectHop[];
+            if (canFollowRedirects()) {
+                hops = await followRedirects(this.getRequestUrl(url), timeout);
+            } else {
+                // Mobile can't see redirects, only where they end up
+                let response = await withTimeout(this.request({ url, method: 'HEAD', throw: false }), timeout);
+                if (response.status === 405 || response.status === 501) {
+                    response = await withTimeout(this.request({ url, throw: false }), timeout);
+                }
+                hops = [{ url, status: response.status, headers: normalizeHeaders(response.headers) }];
+            }
+
+            const last = hops[hops.length - 1];
+            const result: LinkCheckResult = {
+                url,
+                status: last.status,
+                framing: this.isFramingBlocked(last.headers) ? 'blocked' : 'allowed',
+                time: Math.round(performance.now() - start),
+            };
+            if (hops.length > 1) {
+                result.redirect = last.url;
+                result.permanent = hops.slice(0, -1).every(hop => hop.status === 301 || hop.status === 308);
+            }
+            return result;
+        } catch (error) {
+            return {
+                url,
+                error: error instanceof Error ? error.message : String(error),
+                time: Math.round(performance.now() - start),
+            };
+        }
+    }
+
+    // Replaces every occurrence of a URL in the note as one undoable edit
+    private replaceUrlInEditor(editor: Editor, from: string, to: string): number {
+        const text = editor.getValue();
+        const changes = findUrlOccurrences(text, from).map(range => ({
+            from: editor.offsetToPos(range.from),
+            to: editor.offsetToPos(range.to),
+            text: to,
+        }));
+        if (changes.length > 0) {
+            editor.transaction({ changes });
+        }
+        return changes.length;
+    }
+
+    // Strikes through links to any of `urls`, leaving links that are already struck through
+    private markDeadLinks(editor: Editor, urls: string[], sourcePath?: string): number {
+        const cm = this.getEditorView(editor);
+        if (!cm) return 0;
+
+        const doc = cm.state.doc;
+        const changes = this.collectLinks(cm.state, sourcePath)
+            .filter(link => urls.includes(link.url))
+            .filter(link => doc.sliceString(Math.max(0, link.from - 2), link.from) !== '~~')
+            .flatMap(link => [
+                { from: editor.offsetToPos(link.from), text: '~~' },
+                { from: editor.offsetToPos(link.to), text: '~~' },
+            ]);
+        if (changes.length > 0) {
+            editor.transaction({ changes });
+        }
+        return changes.length / 2;
+    }
+
+    // Previewable links on the lines between `from` and `to` in order, the whole note by default
+    private collectLinks(state: EditorState, sourcePath?: string, from = 0, to = state.doc.length): { from: number, to: number, url: string }[] {
+        const links: { from: number, to: number, url: string }[] = [];
+        const references = this.getReferenceDefinitions(state);
+        // Parse the range once up front, resolving each link then reuses the tree
+        ensureSyntaxTree(state, to, 100);
+        for (let n = state.doc.lineAt(from).number; n <= state.doc.lineAt(to).number; n++) {
+            const line = state.doc.line(n);
+            if (parseReferenceDefinition(line.text)) continue;
+
+            for (const link of parseMarkdownLinks(line.text)) {
+                const start = line.from + link.from;
+                // Resolving through the syntax tree skips code spans and blocks
+                const url = this.resolveLinkAtPos(state, start, sourcePath, references);
+                if (url) {
+                    links.push({ from: start, to: line.from + link.to, url });
+                }
+            }
+        }
+        return links;
+    }
+
+    private pinActivePreview() {
+        const preview = this.activePreview;
+        if (!preview) return;
+
+        // Hand the popup over to the panel instead of closing or caching it
+        preview.detach();
+        this.activePreview = undefined;
+        this.cleanupActivePreview();
+
+        const panel = new PinnedPreviewPanel(preview.context, {
+            onFocus: (focused) => this.focusPinnedPanel(focused),
+            onClose: (closed) => {
+                this.pinnedPanels.remove(closed);
+                this.closeNestedPreview(closed.context);
+                this.app.workspace.trigger('url-preview:close', closed.context.url, closed.context.previewEl);
+            },
+            onBoundsChange: (changed, bounds) => this.pinnedBounds.set(changed.context.url, bounds),
+        });
+
+        const saved = this.pinnedBounds.get(preview.context.url);
+        if (saved) {
+            panel.setBounds(saved);
+        }
+
+        this.pinnedPanels.push(panel);
+        this.focusPinnedPanel(panel);
+    }
+
+    // Brings a pinned panel to the front of the stack
+    private focusPinnedPanel(panel: PinnedPreviewPanel) {
+        this.pinnedPanels.remove(panel);
+        this.pinnedPanels.push(panel);
+        this.pinnedPanels.forEach((p, index) => p.setZIndex(PINNED_PANEL_Z_INDEX + index));
+    }
+
+    private closeAllPinnedPanels() {
+        for (const panel of [...this.pinnedPanels]) {
+            panel.close();
+        }
+    }
+
+    // The hover popup, then pinned panels from the front one back
+    private getPreviewRoots(): PreviewContext[] {
+        const roots = [...this.pinnedPanels].reverse().map(panel => panel.context);
+        return this.activePreview ? [this.activePreview.context, ...roots] : roots;
+    }
+
+    // The open preview, hover or pinned or nested, whose element contains `target`
+    private getPreviewContaining(target: Element): PreviewContext | undefined {
+        for (const root of this.getPreviewRoots()) {
+            const context = this.getPreviewChain(root).find(c => c.previewEl.contains(target));
+            if (context) return context;
+        }
+        return undefined;
+    }
+
+    // The hover popup and the nested previews opened from it
+    private isInsideActivePreview(target: Element): boolean {
+        if (!this.activePreview) return false;
+        return this.getPreviewChain(this.activePreview.context).some(c => c.previewEl.contains(target));
+    }
+
+    // `context` followed by its nested previews, innermost last
+    private getPreviewChain(context: PreviewContext): PreviewContext[] {
+        const chain: PreviewContext[] = [];
+        for (let current: PreviewContext | undefined = context; current; current = current.child) {
+            chain.push(current);
+        }
+        return chain;
+    }
+
+    // The first surface containing `el`, or undefined when it's disabled
+    private getLinkSurface(el: Element): LinkSurface | undefined {
+        // The "Try it" link in the settings works even with other views turned off
+        if (el.closest('[data-trigger-profile]')) {
+            return LINK_SURFACES.find(s => s.id === 'other');
+        }
+        const surface = LINK_SURFACES.find(s => el.closest(s.selector) !== null);
+        if (!surface || this.settings.disabledSurfaces.includes(surface.id)) return undefined;
+        return surface;
+    }
+
+    /**
+     * `surface` defaults to the one containing `target`, and must be given for elements that
+     * aren't attached to the document yet.
+     */
+    private findLinkElement(target: Element, relatedTarget: Element | null, surface = this.getLinkSurface(target)): { element: HTMLElement, url: string } | null {
+        if (!surface) return null;
+
+        let el: Element | null = target;
+        while (el && el !== el.ownerDocument.body) {
+            if (!el.instanceOf(HTMLElement)) {
+                el = el.parentElement;
+                continue;
+            }
+
+            if (!el.matches(LINK_SELECTOR) && !(surface.linkSelector && el.matches(surface.linkSelector))) {
+                el = el.parentElement;
+                continue;
+            }
+
+            if (relatedTarget && el.contains(relatedTarget)) {
+                return null;
+            }
+
+            let url = surface.extractUrl?.(el, this.app) ?? null;
+
+            // In editor mode, resolve from the syntax tree FIRST (DOM doesn't have URLs)
+            if (!url && !surface.domOnly && el.closest('.cm-editor')) {
+                url = this.getUrlFromEditor(el);
+            }
+
+            // Fallback to DOM extraction (works in Reader mode)
+            if (!url) {
+                url = this.extractUrlFromElement(el);
+            }
+
+            if (url) {
+                return { element: el, url };
+            }
+
+            el = el.parentElement;
+        }
+
+        return null;
+    }
+
+    private getUrlFromEditor(element: HTMLElement): string | null {
+        // Use the editor the hovered element belongs to (not the active one), so split panes work
+        const editorEl = element.closest('.cm-editor');
+        if (!editorEl?.instanceOf(HTMLElement)) return null;
+
+        const view = EditorView.findFromDOM(editorEl);
+        if (!view) return null;
+
+        let pos: number;
+        try {
+            pos = view.posAtDOM(element);
+        } catch {
+            // Element isn't part of the document content (e.g. a widget)
+            return null;
+        }
+
+        return this.resolveLinkAtPos(view.state, pos, this.getSourcePath(element));
+    }
+
+    /**
+     * `sourcePath` is the note containing the link, used to resolve relative vault paths.
+     * `references` are the note's reference definitions, read from `state` when not given.
+     */
+    private resolveLinkAtPos(state: EditorState, pos: number, sourcePath = '', references?: Map<string, string>): string | null {
+        const line = state.doc.lineAt(pos);
+
+        // Hovering a reference definition line (`[ref]: https://...`)
+        const definition = parseReferenceDefinition(line.text);
+        if (definition) {
+            return this.resolveLinkDestination(definition.url, sourcePath);
+        }
+
+        const span = this.findLinkSpan(state, pos);
+        if (!span) return null;
+
+        const text = state.sliceDoc(span.from, span.to);
+        const links = parseMarkdownLinks(text);
+        const offset = pos - span.from;
+
+        // Prefer the link whose source range contains the hovered position
+        const link = links.find(l => offset >= l.from && offset < l.to) ?? (links.length === 1 ? links[0] : undefined);
+        if (!link) return null;
+
+        if (link.url !== undefined) {
+            return this.resolveLinkDestination(link.url, sourcePath);
+        }
+        if (link.ref !== undefined) {
+            const url = (references ?? this.getReferenceDefinitions(state)).get(normalizeReferenceLabel(link.ref));
+            return url ? this.resolveLinkDestination(url, sourcePath) : null;
+        }
+        return null;
+    }
+
+    // Resolves a Markdown link destination to a URL; relative paths become obsidian:// URIs of vault files
+    private resolveLinkDestination(destination: string, sourcePath: string): string | null {
+        const url = this.normalizeUrl(destination);
+        if (url) return url;
+
+        // Anything else with a scheme isn't a vault path
+        if (/^[a-z][a-z0-9+.-]*:/i.test(destination)) return null;
+
+        let linkpath: string;
+        try {
+            linkpath = decodeURIComponent(destination.split('#')[0]);
+        } catch {
+            linkpath = destination.split('#')[0];
+        }
+        if (!linkpath) return null;
+
+        const file = this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+        return file ? this.getVaultFileUri(file) : null;
+    }
+
+    private getVaultFileUri(file: TFile): string {
+        const vault = encodeURIComponent(this.app.vault.getName());
+        return `obsidian://open?vault=${vault}&file=${encodeURIComponent(file.path)}`;
+    }
+
+    /**
+     * Finds the source range of the link token run around `pos` using the syntax tree.
+     * Obsidian's Markdown tree is token based, so adjacent link tokens are merged.
+     */
+    private findLinkSpan(state: EditorState, pos: number): { from: number, to: number } | null {
+        const line = state.doc.lineAt(pos);
+        const tokens: { from: number, to: number, isLink: boolean }[] = [];
+
+        // Parse up to the hovered line if it's outside the already parsed range
+        const tree = ensureSyntaxTree(state, line.to, 100) ?? syntaxTree(state);
+        tree.iterate({
+            from: line.from,
+            to: line.to,
+            enter: (node) => {
+                // Only collect leaf tokens
+                if (node.node.firstChild) return;
+                const parts = node.type.name.split('_');
+                const isInternal = parts.some(p => p.startsWith('hmd-internal-link'));
+                const isLink = !isInternal && parts.some(p => p === 'link' || p === 'url');
+                tokens.push({ from: Math.max(node.from, line.from), to: Math.min(node.to, line.to), isLink });
+            },
+        });
+
+        const index = tokens.findIndex(t => t.isLink && pos >= t.from && pos < t.to);
+        if (index === -1) return null;
+
+        let first = index;
+        while (first > 0 && tokens[first - 1].isLink && tokens[first - 1].to === tokens[first].from) {
+            first--;
+        }
+        let last = index;
+        while (last < tokens.length - 1 && tokens[last + 1].isLink && tokens[last + 1].from === tokens[last].to) {
+            last++;
+        }
+
+        return { from: tokens[first].from, to: tokens[last].to };
+    }
+
+    // Destinations of the note's reference definitions by normalized label
+    private getReferenceDefinitions(state: EditorState): Map<string, string> {
+        const references = new Map<string, string>();
+        for (let n = 1; n <= state.doc.lines; n++) {
+            const definition = parseReferenceDefinition(state.doc.line(n).text);
+            if (!definition) continue;
+            const label = normalizeReferenceLabel(definition.label);
+            // The first definition of a label wins
+            if (!references.has(label)) {
+                references.set(label, definition.url);
+            }
+        }
+        return references;
+    }
+
+    private extractUrlFromElement(element: HTMLElement): string | null {
+        // For anchor elements, use href directly
+        if (element.instanceOf(HTMLAnchorElement)) {
+            return element.href;
+        }
+
+        // Check element's own attributes
+        const attributes = ['data-href', 'data-url', 'href', 'aria-label', 'title'];
+        for (const attr of attributes) {
+            const value = element.getAttribute(attr);
+            const url = value ? this.normalizeUrl(value) : null;
+            if (url) return url;
+        }
+
+        // For CodeMirror elements, look for ancestor anchor or external-link
+        let ancestor: HTMLElement | null = element;
+        while (ancestor && ancestor !== ancestor.ownerDocument.body) {
+            if (ancestor.instanceOf(HTMLAnchorElement) && ancestor.href) {
+                return this.normalizeUrl(ancestor.href);
+            }
+            // Check for Obsidian's external-link class which wraps the anchor
+            if (ancestor.classList.contains('external-link') || ancestor.classList.contains('cm-link')) {
+                const anchor = ancestor.querySelector('a[href]');
+                if (anchor?.instanceOf(HTMLAnchorElement) && anchor.href) {
+                    return this.normalizeUrl(anchor.href);
+                }
+            }
+            ancestor = ancestor.parentElement;
+        }
+
+        // Fallback to text content (for bare URLs in editor)
+        const text = element.textContent?.trim();
+        return text ? this.normalizeUrl(text) : null;
+    }
+
+    normalizeUrl(candidate: string): string | null {
+        const trimmed = candidate.trim();
+        if (!/^(https?:\/\/|file:\/\/|obsidian:\/\/|mailto:|tel:)/i.test(trimmed)) {
+            return null;
+        }
+        try {
+            const url = new URL(trimmed);
+            return url.href;
+        } catch {
+            return null;
+        }
+    }
+}
+
+// Drops the oldest keys beyond `max`, records keep insertion order
+function trimRecord(record: Record<string, unknown>, max: number) {
+    const keys = Object.keys(record);
+    for (const key of keys.slice(0, Math.max(0, keys.length - max))) {
+        delete record[key];
+    }
+}
+
+// Rejects when `promise` takes longer than `ms`
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const timer = window.setTimeout(() => reject(new Error(`Timed out after ${ms / 1000} seconds`)), ms);
+        promise.then(resolve, reject).finally(() => window.clearTimeout(timer));
+    });
+}
+
+// Node's http and https modules share the request API used here
+type NodeHttp = typeof import('https');
+
+// Node modules are only available on desktop, where Electron exposes require()
+function canFollowRedirects(): boolean {
+    return Platform.isDesktopApp && typeof (window as Window & { require?: unknown }).require === 'function';
+}
+
+// Sends one request without following a redirect, and reads only the response head
+function requestHop(url: string, method: 'HEAD' | 'GET', timeout: number): Promise<RedirectHop> {
+    const nodeRequire = (window as Window & { require: (id: string) => unknown }).require;
+    const http = nodeRequire(url.startsWith('https:') ? 'https' : 'http') as NodeHttp;
+    return new Promise((resolve, reject) => {
+        const request = http.request(url, { method, timeout }, (response) => {
+            const headers: Record<string, string> = {};
+            for (const [name, value] of Object.entries(response.headers)) {
+                if (value !== undefined) {
+                    headers[name] = Array.isArray(value) ? value.join(', ') : value;
+                }
+            }
+            response.destroy();
+            resolve({ url, status: response.statusCode ?? 0, headers });
+        });
+        request.on('timeout', () => request.destroy(new Error(`Timed out after ${Math.round(timeout / 1000)} seconds`)));
+        request.on('error', reject);
+        request.end();
+    });
+}
+
+/**
+ * Requests `url` and then each redirect it answers with, one hop at a time, since requestUrl
+ * follows redirects without reporting them. Stops after REDIRECT_HOP_LIMIT redirects, on a
+ * loop, or when `timeout` runs out for the whole chain. Rejects when the first request
+ * fails; a later hop that fails ends the chain at the redirect pointing to it.
+ */
+async function followRedirects(url: string, timeout: number): Promise<RedirectHop[]> {
+    const deadline = Date.now() + timeout;
+    const hops: RedirectHop[] = [];
+    let current = url;
+    for (;;) {
+        let hop: RedirectHop;
+        try {
+            const remaining = deadline - Date.now();
+            if (remaining <= 0) {
+                throw new Error(`Timed out after ${Math.round(timeout / 1000)} seconds`);
+            }
+            hop = await requestHop(current, 'HEAD', remaining);
+            // Some servers don't implement HEAD
+            if (hop.status === 405 || hop.status === 501) {
+                hop = await requestHop(current, 'GET', Math.max(1, deadline - Date.now()));
+            }
+        } catch (error) {
+            if (hops.length === 0) throw error;
+            return hops;
+        }
+        hops.push(hop);
+
+        const location = hop.headers['location'];
+        if (hop.status < 300 || hop.status >= 400 || !location || hops.length > REDIRECT_HOP_LIMIT) {
+            return hops;
+        }
+        try {
+            current = new URL(location, current).href;
+        } catch {
+            return hops;
+        }
+        if (hops.some(previous => previous.url === current)) {
+            return hops;
+        }
+    }
+}
+
+// Same host (ignoring www.) and path (ignoring a trailing slash); query and hash may differ
+function isSameDestination(a: string, b: string): boolean {
+    try {
+        const normalize = (url: URL) => `${url.hostname.replace(/^www\./, '')}${url.pathname.replace(/\/$/, '')}`;
+        return normalize(new URL(a)) === normalize(new URL(b));
+    } catch {
+        return a === b;
+    }
+}
+
+/**
+ * Offsets of a URL in text, as written or without the trailing slash URL parsing adds.
+ * Matches that are part of a longer URL are skipped.
+ */
+function findUrlOccurrences(text: string, url: string): { from: number, to: number }[] {
+    const variants = url.endsWith('/') ? [url, url.slice(0, -1)] : [url];
+    const ranges: { from: number, to: number }[] = [];
+    for (const variant of variants) {
+        for (let index = text.indexOf(variant); index !== -1; index = text.indexOf(variant, index + variant.length)) {
+            const before = text.charAt(index - 1);
+            const after = text.charAt(index + variant.length);
+            if (/[\w/%.-]/.test(after) || /[\w/]/.test(before)) continue;
+            if (ranges.some(range => index < range.to && index + variant.length > range.from)) continue;
+            ranges.push({ from: index, to: index + variant.length });
+        }
+    }
+    return ranges.sort((a, b) => a.from - b.from);
+}
+
+// Rebuilds link annotations in an editor, see refreshLinkAnnotations()
+const refreshAnnotationsEffect = StateEffect.define<null>();
+
+// Favicon, domain label and failed marker after a link in Live Preview
+class LinkAnnotationWidget extends WidgetType {
+    constructor(private readonly key: string, private readonly build: (doc: Document) => HTMLElement) {
+        super();
+    }
+
+    eq(other: LinkAnnotationWidget): boolean {
+        return other.key === this.key;
+    }
+
+    toDOM(view: EditorView): HTMLElement {
+        return this.build(view.dom.ownerDocument);
+    }
+}
+
+// Removes a preview's element and unloads everything rendered into it
+function destroyPreview(context: PreviewContext) {
+    context.component.unload();
+    context.previewEl.remove();
+}
+
+/**
+ * LRU pool of closed, still loaded previews keyed by URL. Cached popups stay attached
+ * to the document (hidden), since moving an iframe in the DOM reloads it.
+ */
+class PreviewCache {
+    // Map iteration order is insertion order, so the first entry is the least recently used
+    private entries = new Map<string, PreviewContext>();
+    private stats = { hits: 0, misses: 0, evictions: 0, prefetches: 0 };
+
+    constructor(private getSettings: () => Pick<LinkPreviewSettings, 'cacheSize'>) {}
+
+    has(url: string): boolean {
+        return this.entries.has(url);
+    }
+
+    // Removes and returns the cached preview for `url`, counting the lookup
+    take(url: string): PreviewContext | undefined {
+        const entry = this.entries.get(url);
+        if (entry) {
+            this.entries.delete(url);
+            this.stats.hits++;
+        } else {
+            this.stats.misses++;
+        }
+        return entry;
+    }
+
+    put(entry: PreviewContext, prefetched = false) {
+        const key = PreviewCache.getKey(entry);
+        const existing = this.entries.get(key);
+        if (existing !== entry) {
+            this.remove(key);
+        }
+        // Re-insert to mark as most recently used
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        if (prefetched) {
+            this.stats.prefetches++;
+        }
+
+        const { cacheSize } = this.getSettings();
+        while (this.entries.size > cacheSize) {
+            this.evictOldest();
+        }
+    }
+
+    evict(predicate: (entry: PreviewContext) => boolean) {
+        for (const [key, entry] of Array.from(this.entries)) {
+            if (predicate(entry)) {
+                this.remove(key);
+                this.stats.evictions++;
+            }
+        }
+    }
+
+    clear() {
+        for (const entry of this.entries.values()) {
+            destroyPreview(entry);
+        }
+        this.entries.clear();
+    }
+
+    getStats(): PreviewCacheStats {
+        return { size: this.entries.size, ...this.stats };
+    }
+
+    // Redirected previews stay under the link that was hovered
+    private static getKey(entry: PreviewContext): string {
+        return entry.redirectedFrom ?? entry.url;
+    }
+
+    private evictOldest() {
+        const oldest = this.entries.keys().next();
+        if (!oldest.done) {
+            this.remove(oldest.value);
+            this.stats.evictions++;
+        }
+    }
+
+    private remove(url: string) {
+        const entry = this.entries.get(url);
+        if (entry) {
+            destroyPreview(entry);
+            this.entries.delete(url);
+        }
+    }
+}
+
+/**
+ * Record kept in the vault's local storage rather than data.json, for state that changes
+ * often and isn't worth syncing between devices. Keeps insertion order, the oldest
+ * entries are dropped beyond `max`.
+ */
+class LocalRecordStore<T> {
+    private record: Record<string, T>;
+    private requestSave = debounce(() => this.save(), 1000, true);
+
+    constructor(private app: App, private key: string, private max: number) {
+        const stored: unknown = app.loadLocalStorage(key);
+        this.record = stored && typeof stored === 'object' ? stored as Record<string, T> : {};
+    }
+
+    get(key: string): T | undefined {
+        return this.record[key];
+    }
+
+    has(key: string): boolean {
+        return key in this.record;
+    }
+
+    set(key: string, value: T) {
+        // Re-insert so the entry is the newest
+        delete this.record[key];
+        this.record[key] = value;
+        trimRecord(this.record, this.max);
+        this.requestSave();
+    }
+
+    delete(key: string) {
+        if (!this.has(key)) return;
+        delete this.record[key];
+        this.requestSave();
+    }
+
+    clear() {
+        this.record = {};
+        this.requestSave.cancel();
+        this.save();
+    }
+
+    // Writes a change still waiting for the debounce
+    flush() {
+        this.requestSave.run();
+    }
+
+    private save() {
+        this.app.saveLocalStorage(this.key, this.record);
+    }
+}
+
+type ResizeEdge = 'n' | 's' | 'e' | 'w' | 'ne' | 'nw' | 'se' | 'sw';
+
+/**
+ * A preview popup detached from hover handling: stays open, can be dragged by its
+ * title bar and resized from its edges. Wraps the existing popup so the page isn't reloaded.
+ */
+class PinnedPreviewPanel {
+    private titleBar: HTMLElement;
+
+    constructor(readonly context: PreviewContext, private callbacks: {
+        onFocus: (panel: PinnedPreviewPanel) => void,
+        onClose: (panel: PinnedPreviewPanel) => void,
+        onBoundsChange: (panel: PinnedPreviewPanel, bounds: PanelBounds) => void,
+    }) {
+        const el = context.previewEl;
+        el.addClass('is-pinned');
+
+        this.titleBar = createDiv('preview-pin-titlebar');
+        this.titleBar.createSpan({ cls: 'preview-pin-title', text: context.url });
+        el.prepend(this.titleBar);
+
+        this.makeDraggable();
+        for (const edge of ['n', 's', 'e', 'w', 'ne', 'nw', 'se', 'sw'] as ResizeEdge[]) {
+            this.makeResizable(el.createDiv(`preview-resize-handle preview-resize-${edge}`), edge);
+        }
+
+        el.addEventListener('pointerdown', () => this.callbacks.onFocus(this));
+    }
+
+    getBounds(): PanelBounds {
+        const rect = this.context.previewEl.getBoundingClientRect();
+        return { left: rect.left, top: rect.top, width: rect.width, height: rect.height };
+    }
+
+    setBounds(bounds: PanelBounds) {
+        const win = this.context.previewEl.ownerDocument.defaultView ?? window;
+        // Keep the title bar reachable if the window got smaller since the bounds were saved
+        const width = Math.min(Math.max(bounds.width, MIN_PANEL_SIZE), win.innerWidth);
+        const height = Math.min(Math.max(bounds.height, MIN_PANEL_SIZE), win.innerHeight);
+        const left = Math.min(Math.max(bounds.left, 0), win.innerWidth - width);
+        const top = Math.min(Math.max(bounds.top, 0), win.innerHeight - height);
+
+        this.context.previewEl.setCssStyles({
+            left: `${left}px`,
+            top: `${top}px`,
+            width: `${width}px`,
+            height: `${height}px`,
+        });
+    }
+
+    setZIndex(zIndex: number) {
+        this.context.previewEl.setCssProps({ 'z-index': String(zIndex) });
+    }
+
+    close() {
+        destroyPreview(this.context);
+        this.callbacks.onClose(this);
+    }
+
+    private makeDraggable() {
+        this.trackPointer(this.titleBar, (start, dx, dy) => ({
+            ...start,
+            left: start.left + dx,
+            top: start.top + dy,
+        }));
+    }
+
+    private makeResizable(handle: HTMLElement, edge: ResizeEdge) {
+        this.trackPointer(handle, (start, dx, dy) => {
+            const bounds = { ...start };
+            if (edge.includes('e')) {
+                bounds.width = Math.max(MIN_PANEL_SIZE, start.width + dx);
+            }
+            if (edge.includes('s')) {
+                bounds.height = Math.max(MIN_PANEL_SIZE, start.height + dy);
+            }
+            if (edge.includes('w')) {
+                bounds.width = Math.max(MIN_PANEL_SIZE, start.width - dx);
+                bounds.left = start.left + start.width - bounds.width;
+            }
+            if (edge.includes('n')) {
+                bounds.height = Math.max(MIN_PANEL_SIZE, start.height - dy);
+                bounds.top = start.top + start.height - bounds.height;
+            }
+            return bounds;
+        });
+    }
+
+    private trackPointer(handle: HTMLElement, update: (start: PanelBounds, dx: number, dy: number) => PanelBounds) {
+        handle.addEventListener('pointerdown', (e: PointerEvent) => {
+            if (e.button !== 0 || (e.target as Element).closest('button')) return;
+            e.preventDefault();
+
+            const start = this.getBounds();
+            const startX = e.clientX;
+            const startY = e.clientY;
+            // Pointer capture keeps events flowing even when the pointer crosses the iframe
+            handle.setPointerCapture(e.pointerId);
+            this.context.previewEl.addClass('is-moving');
+
+            const onMove = (move: PointerEvent) => {
+                this.setBounds(update(start, move.clientX - startX, move.clientY - startY));
+            };
+            const onUp = () => {
+                handle.removeEventListener('pointermove', onMove);
+                handle.removeEventListener('pointerup', onUp);
+                handle.removeEventListener('pointercancel', onUp);
+                this.context.previewEl.removeClass('is-moving');
+                this.callbacks.onBoundsChange(this, this.getBounds());
+            };
+
+            handle.addEventListener('pointermove', onMove);
+            handle.addEventListener('pointerup', onUp);
+            handle.addEventListener('pointercancel', onUp);
+        });
+    }
+}
+
+interface UrlPreviewViewState {
+    url?: string;
+}
+
+/**
+ * Workspace view hosting a URL preview in a tab or sidebar, with a URL bar and
+ * its own navigation history (the cross-origin frame's history isn't accessible).
+ */
+class UrlPreviewView extends ItemView {
+    navigation = true;
+    private url = '';
+    private history: string[] = [];
+    private historyIndex = -1;
+    private urlInput: HTMLInputElement;
+    private backButton: HTMLButtonElement;
+    private forwardButton: HTMLButtonElement;
+    private frameEl: HTMLElement;
+    private context?: PreviewContext;
+
+    constructor(leaf: WorkspaceLeaf, private plugin: LinkPreviewPlugin) {
+        super(leaf);
+    }
+
+    getViewType(): string {
+        return VIEW_TYPE_URL_PREVIEW;
+    }
+
+    getDisplayText(): string {
+        try {
+            return new URL(this.url).hostname;
+        } catch {
+            return 'URL preview';
+        }
+    }
+
+    getIcon(): string {
+        return 'globe';
+    }
+
+    async onOpen() {
+        this.contentEl.empty();
+        this.contentEl.addClass('url-preview-view');
+
+        const toolbar = this.contentEl.createDiv('url-preview-toolbar');
+        this.backButton = this.createToolbarButton(toolbar, 'arrow-left', 'Back', () => this.go(-1));
+        this.forwardButton = this.createToolbarButton(toolbar, 'arrow-right', 'Forward', () => this.go(1));
+        this.createToolbarButton(toolbar, 'rotate-cw', 'Reload', () => this.render());
+
+        this.urlInput = toolbar.createEl('input', { type: 'text', cls: 'url-preview-url-bar' });
+        this.urlInput.addEventListener('keydown', (e) => {
+            if (e.key !== 'Enter') return;
+            const value = this.urlInput.value.trim();
+            // Allow typing a bare domain
+            const url = this.plugin.normalizeUrl(/^[a-z][a-z0-9+.-]*:/i.test(value) ? value : `https://${value}`);
+            if (!url || !/^https?:/.test(url)) {
+                new Notice('Only web addresses can be opened');
+                return;
+            }
+            this.navigate(url);
+        });
+
+        this.createToolbarButton(toolbar, 'external-link', 'Open in external browser', () => {
+            if (this.url) window.open(this.url);
+        });
+
+        this.frameEl = this.contentEl.createDiv('url-preview-frame');
+        this.render();
+    }
+
+    async onClose() {
+        this.context?.component.unload();
+        this.context = undefined;
+    }
+
+    async setState(state: UrlPreviewViewState, result: ViewStateResult) {
+        if (state.url && state.url !== this.url) {
+            this.navigate(state.url);
+        }
+        await super.setState(state, result);
+    }
+
+    getState(): Record<string, unknown> {
+        return { url: this.url };
+    }
+
+    private navigate(url: string) {
+        // Drop forward history, like a browser
+        this.history = this.history.slice(0, this.historyIndex + 1);
+        this.history.push(url);
+        this.historyIndex = this.history.length - 1;
+        this.url = url;
+        this.render();
+        this.app.workspace.requestSaveLayout();
+    }
+
+    private go(delta: number) {
+        const index = this.historyIndex + delta;
+        if (index < 0 || index >= this.history.length) return;
+        this.historyIndex = index;
+        this.url = this.history[index];
+        this.render();
+        this.app.workspace.requestSaveLayout();
+    }
+
+    private render() {
+        // setState can run before onOpen has built the layout
+        if (!this.frameEl) return;
+
+        this.urlInput.value = this.url;
+        this.backButton.disabled = this.historyIndex <= 0;
+        this.forwardButton.disabled = this.historyIndex >= this.history.length - 1;
+        // Update the tab title
+        (this.leaf as WorkspaceLeaf & { updateHeader?: () => void }).updateHeader?.();
+
+        if (this.url) {
+            this.context = this.plugin.renderPreviewInto(this.frameEl, this.url, this.context);
+        } else {
+            this.context?.component.unload();
+            this.context = undefined;
+            this.frameEl.empty();
+        }
+    }
+
+    private createToolbarButton(container: HTMLElement, icon: string, tooltip: string, onClick: () => void): HTMLButtonElement {
+        const button = container.createEl('button', { cls: 'clickable-icon' });
+        setIcon(button, icon);
+        setTooltip(button, tooltip);
+        button.addEventListener('click', onClick);
+        return button;
+    }
+}
+
+// Checks links in parallel and lists their health as results arrive
+class LinkHealthModal extends Modal {
+    private results: LinkCheckResult[] = [];
+    private rowsEl: HTMLElement;
+    private summaryEl: HTMLElement;
+    private actionsEl: HTMLElement;
+    private closed = false;
+
+    constructor(app: App, private urls: string[], private callbacks: {
+        checkLink: (url: string) => Promise<LinkCheckResult>,
+        // Both return the number of links changed in the note
+        onUpdateRedirect: (from: string, to: string) => number,
+        onMarkDead: (urls: string[]) => number,
+    }) {
+        super(app);
+    }
+
+    onOpen() {
+        this.setTitle('Link health');
+        this.modalEl.addClass('preview-link-health-modal');
+        this.summaryEl = this.contentEl.createDiv('preview-link-health-summary');
+
+        const table = this.contentEl.createEl('table', { cls: 'preview-link-health' });
+        const header = table.createEl('thead').createEl('tr');
+        for (const column of ['Link', 'Status', 'Redirects to', 'Embedding', 'Time']) {
+            header.createEl('th', { text: column });
+        }
+        this.rowsEl = table.createEl('tbody');
+        this.actionsEl = this.contentEl.createDiv('preview-link-health-actions');
+
+        this.updateSummary();
+        void this.run();
+    }
+
+    onClose() {
+        this.closed = true;
+        this.contentEl.empty();
+    }
+
+    private async run() {
+        const queue = [...this.urls];
+        const worker = async () => {
+            for (let url = queue.shift(); url !== undefined && !this.closed; url = queue.shift()) {
+                const result = await this.callbacks.checkLink(url);
+                if (this.closed) return;
+                this.results.push(result);
+                this.renderRow(result);
+                this.updateSummary();
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(LINK_CHECK_CONCURRENCY, queue.length) }, worker));
+        if (!this.closed) this.renderActions();
+    }
+
+    private renderRow(result: LinkCheckResult) {
+        const row = this.rowsEl.createEl('tr');
+        row.dataset.health = LinkHealthModal.getHealth(result);
+
+        row.createEl('td', { cls: 'preview-link-health-url', text: result.url, attr: { title: result.url } });
+        row.createEl('td', { cls: 'preview-link-health-status', text: result.error ?? String(result.status) });
+
+        const redirectCell = row.createEl('td');
+        if (result.redirect) {
+            const redirect = result.redirect;
+            const title = result.permanent ? redirect : `${redirect} (temporary redirect)`;
+            redirectCell.createSpan({ cls: 'preview-link-health-url', text: redirect, attr: { title } });
+            const button = redirectCell.createEl('button', { text: 'Update' });
+            button.addEventListener('click', () => {
+                this.callbacks.onUpdateRedirect(result.url, redirect);
+                button.disabled = true;
+                button.setText('Updated');
+            });
+        }
+
+        row.createEl('td', { text: result.framing === 'blocked' ? 'Blocked' : result.framing === 'allowed' ? 'Allowed' : '' });
+        row.createEl('td', { text: `${result.time} ms` });
+    }
+
+    private updateSummary() {
+        const dead = this.results.filter(r => LinkHealthModal.getHealth(r) === 'dead').length;
+        const redirects = this.results.filter(r => r.redirect).length;
+        const progress = this.results.length < this.urls.length ? `Checked ${this.results.length} of ${this.urls.length} links` : `Checked ${this.urls.length} links`;
+        this.summaryEl.setText(`${progress}: ${dead} dead, ${redirects} redirected`);
+    }
+
+    private renderActions() {
+        // Temporary redirects (sign-in pages, campaigns) only change one link at a time
+        const redirected = this.results.filter(r => r.redirect && r.permanent);
+        const dead = this.results.filter(r => LinkHealthModal.getHealth(r) === 'dead');
+
+        new Setting(this.actionsEl)
+            .addButton(button => button
+                .setButtonText('Update permanent redirects')
+                .setDisabled(redirected.length === 0)
+                .onClick(() => {
+                    const count = redirected.reduce((sum, r) => sum + this.callbacks.onUpdateRedirect(r.url, r.redirect ?? r.url), 0);
+                    new Notice(`Updated ${count} links`);
+                    button.setDisabled(true);
+                }))
+            .addButton(button => button
+                .setButtonText('Mark dead links')
+                .setWarning()
+                .setDisabled(dead.length === 0)
+                .onClick(() => {
+                    const count = this.callbacks.onMarkDead(dead.map(r => r.url));
+                    new Notice(`Marked ${count} dead links`);
+                    button.setDisabled(true);
+                }));
+    }
+
+    // Sign-in walls (401, 403) and rate limits (429) aren't dead, just restricted
+    static getHealth(result: LinkCheckResult): 'ok' | 'redirect' | 'restricted' | 'dead' {
+        if (result.error || result.status === undefined) return 'dead';
+        if (result.status === 401 || result.status === 403 || result.status === 429) return 'restricted';
+        if (result.status >= 400) return 'dead';
+        return result.redirect ? 'redirect' : 'ok';
+    }
+}
+
+class DomainRulesImportModal extends Modal {
+    private value = '';
+
+    constructor(app: App, private onImport: (data: DomainRulesExport) => Promise<void>) {
+        super(app);
+    }
+
+    onOpen() {
+        this.setTitle('Import domain rules');
+        this.contentEl.createEl('p', { text: 'Paste exported domain rules. This replaces the current domain lists and rules.' });
+
+        new Setting(this.contentEl)
+            .addTextArea(text => {
+                text.inputEl.rows = 10;
+                text.inputEl.addClass('preview-import-textarea');
+                text.onChange(value => this.value = value);
+            });
+
+        new Setting(this.contentEl)
+            .addButton(button => button
+                .setButtonText('Import')
+                .setCta()
+                .onClick(async () => {
+                    const data = this.parse(this.value);
+                    if (!data) {
+                        new Notice('Invalid domain rules');
+                        return;
+                    }
+                    await this.onImport(data);
+                    this.close();
+                }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private parse(value: string): DomainRulesExport | null {
+        let data: unknown;
+        try {
+            data = JSON.parse(value);
+        } catch {
+            return null;
+        }
+        if (typeof data !== 'object' || data === null) return null;
+
+        const raw = data as Partial<Record<keyof DomainRulesExport, unknown>>;
+        const isStringArray = (list: unknown): list is string[] => Array.isArray(list) && list.every(item => typeof item === 'string');
+        const allowedDomains = raw.allowedDomains ?? [];
+        const deniedDomains = raw.deniedDomains ?? [];
+        const domainRules = raw.domainRules ?? [];
+        if (!isStringArray(allowedDomains) || !isStringArray(deniedDomains) || !Array.isArray(domainRules)) {
+            return null;
+        }
+
+        const rules = (domainRules as unknown[])
+            .filter((rule): rule is Partial<DomainRule> => typeof rule === 'object' && rule !== null && typeof (rule as DomainRule).pattern === 'string')
+            .map(rule => ({ ...DEFAULT_DOMAIN_RULE, ...rule }));
+        return { allowedDomains, deniedDomains, domainRules: rules };
+    }
+}
+
+class LinkPreviewSettingTab extends PluginSettingTab {
+    plugin: LinkPreviewPlugin;
+    // Profile shown in the profile editor, the first one when unset
+    private editedProfileId?: string;
+
+    constructor(app: App, plugin: LinkPreviewPlugin) {
+        super(app, plugin);
+        this.plugin = plugin;
+    }
+
+    display(): void {
+        const {containerEl} = this;
 
         containerEl.empty();
 
-        const isModifierKeyEnabled = this.plugin.settings.requireModifierKey;
+        new Setting(containerEl)
+            .setName('Preview on hover')
+            .setDesc('Show previews when hovering or clicking links, as set by the trigger profiles below. Previews can also be opened with commands.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.hoverEnabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.hoverEnabled = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        this.displayTriggerSettings(containerEl);
+
+        const behaviorGroup = new SettingGroup(containerEl)
+            .setHeading('Behavior')
+            .addClass('settings-group-no-margin');
+
+        behaviorGroup.addSetting(setting => {
+            setting
+                .setName('Preview mode')
+                .setDesc('Live page, metadata card (title, description and image), readable article text without scripts, or live page with a fallback when the site blocks embedding')
+                .addDropdown(dropdown => dropdown
+                    .addOption('iframe', 'Live page')
+                    .addOption('card', 'Metadata card')
+                    .addOption('readable', 'Readable text')
+                    .addOption('auto', 'Automatic')
+                    .setValue(this.plugin.settings.previewMode)
+                    .onChange(async (value) => {
+                        this.plugin.settings.previewMode = value as PreviewMode;
+                        await this.plugin.savePreviewSettings();
+                    }));
+        });
+
+        behaviorGroup.addSetting(setting => {
+            setting
+                .setName('Fallback for blocked sites')
+                .setDesc('What automatic mode shows when a site blocks embedding')
+                .addDropdown(dropdown => dropdown
+                    .addOption('card', 'Metadata card')
+                    .addOption('readable', 'Readable text')
+                    .setValue(this.plugin.settings.blockedFallback)
+                    .onChange(async (value) => {
+                        this.plugin.settings.blockedFallback = value as BlockedFallback;
+                        await this.plugin.savePreviewSettings();
+                    }));
+        });
+
+        behaviorGroup.addSetting(setting => {
+            setting
+                .setName('Show navigation bar')
+                .setDesc('Show back, forward and reload buttons and the current URL above the preview. Click the URL to copy it.')
+                .addToggle(toggle => toggle
+                    .setValue(this.plugin.settings.showNavigationBar)
+                    .onChange(async (value) => {
+                        this.plugin.settings.showNavigationBar = value;
+                        await this.plugin.saveSettings();
+                    }));
+        });
+
+        behaviorGroup.addSetting(setting => {
+            setting
+                .setName('Links inside previews')
+                .setDesc('What clicking a link in a metadata card, readable text or note preview does. Ctrl/Cmd + click always opens the browser. Live pages handle their own links.')
+                .addDropdown(dropdown => dropdown
+                    .addOption('navigate', 'Open in the preview')
+                    .addOption('browser', 'Open in browser')
+                    .addOption('preview', 'Open a nested preview')
+                    .setValue(this.plugin.settings.linkClickAction)
+                    .onChange(async (value) => {
+                        this.plugin.settings.linkClickAction = value as LinkClickAction;
+                        await this.plugin.saveSettings();
+                    }));
+        });
+
+        behaviorGroup.addSetting(setting => {
+            setting
+                .setName('Show open in browser button')
+                .setDesc('Show a button to open the URL in the default browser')
+                .addToggle(toggle => toggle
+                    .setValue(this.plugin.settings.showOpenInBrowser)
+                    .onChange(async (value) => {
+                        this.plugin.settings.showOpenInBrowser = value;
+                        await this.plugin.saveSettings();
+                    }));
+        });
+
+        behaviorGroup.addSetting(setting => {
+            setting
+                .setName('Show open in Obsidian button')
+                .setDesc('Show a button to open the URL in a new tab, a split or the right sidebar')
+                .addToggle(toggle => toggle
+                    .setValue(this.plugin.settings.showOpenInView)
+                    .onChange(async (value) => {
+                        this.plugin.settings.showOpenInView = value;
+                        await this.plugin.saveSettings();
+                    }));
+        });
+
+        behaviorGroup.addSetting(setting => {
+            setting
+                .setName('Show pin button')
+                .setDesc('Show a button to pin the preview as a floating window that stays open')
+                .addToggle(toggle => toggle
+                    .setValue(this.plugin.settings.showPinButton)
+                    .onChange(async (value) => {
+                        this.plugin.settings.showPinButton = value;
+                        await this.plugin.saveSettings();
+                    }));
+        });
+
+        behaviorGroup.addSetting(setting => {
+            setting
+                .setName('Show zoom buttons')
+                .setDesc('Show buttons to zoom the preview in and out. Ctrl/Cmd + scroll also zooms.')
+                .addToggle(toggle => toggle
+                    .setValue(this.plugin.settings.showZoomButtons)
+                    .onChange(async (value) => {
+                        this.plugin.settings.showZoomButtons = value;
+                        await this.plugin.saveSettings();
+                    }));
+        });
+
+        behaviorGroup.addSetting(setting => {
+            setting
+                .setName('Remember zoom and scroll position')
+                .setDesc('Reopen previews at the zoom level last used for the domain and the scroll position last used for the URL. Scroll positions are only kept for cards and local files.')
+                .addToggle(toggle => toggle
+                    .setValue(this.plugin.settings.rememberZoomAndScroll)
+                    .onChange(async (value) => {
+                        this.plugin.settings.rememberZoomAndScroll = value;
+                        if (!value) {
+                            this.plugin.forgetZoomAndScroll();
+                        }
+                        await this.plugin.saveSettings();
+                    }));
+        });
+
+        behaviorGroup.addSetting(setting => {
+            setting
+                .setName('Show close button')
+                .setDesc('Show a button to close the preview popup')
+                .addToggle(toggle => toggle
+                    .setValue(this.plugin.settings.showCloseButton)
+                    .onChange(async (value) => {
+                        this.plugin.settings.showCloseButton = value;
+                        await this.plugin.saveSettings();
+                    }));
+        });
+
+        new SettingGroup(containerEl)
+            .setHeading('Touch')
+            .addClass('settings-group-no-margin')
+            .addSetting(setting => {
+                setting
+                    .setName('Touch trigger')
+                    .setDesc('How to open a preview on touch screens. Double tap is only used on mobile, touch screen computers use long press. Touch previews close with a tap outside or by swiping down the handle.')
+                    .addDropdown(dropdown => dropdown
+                        .addOption('long-press', 'Long press')
+                        .addOption('double-tap', 'Double tap')
+                        .addOption('off', 'Off')
+                        .setValue(this.plugin.settings.touchTrigger)
+                        .onChange(async (value) => {
+                            this.plugin.settings.touchTrigger = value as TouchTrigger;
+                            await this.plugin.saveSettings();
+                        }));
+            })
+            .addSetting(setting => {
+                setting
+                    .setName('Touch layout')
+                    .setDesc('Show touch previews as a sheet at the bottom of the screen, or as a popup spanning the screen width next to the link')
+                    .addDropdown(dropdown => dropdown
+                        .addOption('sheet', 'Bottom sheet')
+                        .addOption('popup', 'Full-width popup')
+                        .setValue(this.plugin.settings.touchLayout)
+                        .onChange(async (value) => {
+                            this.plugin.settings.touchLayout = value as TouchLayout;
+                            await this.plugin.saveSettings();
+                        }));
+            });
+
+        new SettingGroup(containerEl)
+            .setHeading('Capture')
+            .addClass('settings-group-no-margin')
+            .addSetting(setting => {
+                setting
+                    .setName('Show capture button')
+                    .setDesc('Show a button to save a clipping of the previewed page to the vault')
+                    .addToggle(toggle => toggle
+                        .setValue(this.plugin.settings.showCaptureButton)
+                        .onChange(async (value) => {
+                            this.plugin.settings.showCaptureButton = value;
+                            await this.plugin.saveSettings();
+                        }));
+            })
+            .addSetting(setting => {
+                setting
+                    .setName('Save clippings to')
+                    .setDesc('Create a new note, or append a callout to the note containing the link')
+                    .addDropdown(dropdown => dropdown
+                        .addOption('note', 'New note')
+                        .addOption('current-note', 'Current note')
+                        .setValue(this.plugin.settings.captureTarget)
+                        .onChange(async (value) => {
+                            this.plugin.settings.captureTarget = value as CaptureTarget;
+                            await this.plugin.saveSettings();
+                        }));
+            })
+            .addSetting(setting => {
+                setting
+                    .setName('Clippings folder')
+                    .setDesc('Folder for new clipping notes. Leave empty to use the default location for new notes.')
+                    .addText(text => text
+                        .setPlaceholder('Clippings')
+                        .setValue(this.plugin.settings.captureFolder)
+                        .onChange(async (value) => {
+                            this.plugin.settings.captureFolder = value;
+                            await this.plugin.saveSettings();
+                        }));
+            })
+            .addSetting(setting => {
+                setting
+                    .setName('Download image')
+                    .setDesc("Save the page's preview image to the attachments folder instead of linking to it")
+                    .addToggle(toggle => toggle
+                        .setValue(this.plugin.settings.captureDownloadImage)
+                        .onChange(async (value) => {
+                            this.plugin.settings.captureDownloadImage = value;
+                            await this.plugin.saveSettings();
+                        }));
+            })
+            .addSetting(setting => {
+                setting
+                    .setName('Clipping template')
+                    .setDesc('Available placeholders: {{title}}, {{url}}, {{description}}, {{site}}, {{author}}, {{favicon}}, {{image}}, {{date}} and {{content}}.')
+                    .addTextArea(text => {
+                        text.inputEl.addClass('preview-template-textarea');
+                        text
+                            .setValue(this.plugin.settings.captureTemplate)
+                            .onChange(async (value) => {
+                                this.plugin.settings.captureTemplate = value;
+                                await this.plugin.saveSettings();
+                            });
+                    })
+                    .addExtraButton(button => button
+                        .setIcon('reset')
+                        .setTooltip('Restore default template')
+                        .onClick(async () => {
+                            this.plugin.settings.captureTemplate = DEFAULT_CAPTURE_TEMPLATE;
+                            await this.plugin.saveSettings();
+                            this.display();
+                        }));
+            });
+
+        new SettingGroup(containerEl)
+            .setHeading('Privacy')
+            .addClass('settings-group-no-margin')
+            .addSetting(setting => {
+                setting
+                    .setName('Privacy profile')
+                    .setDesc('Full: pages load as in a browser. Reduced: no referrer, autoplay, camera, microphone or location. Strict: also disables scripts.')
+                    .addDropdown(dropdown => dropdown
+                        .addOption('full', PRIVACY_PROFILES.full.label)
+                        .addOption('reduced', PRIVACY_PROFILES.reduced.label)
+                        .addOption('strict', PRIVACY_PROFILES.strict.label)
+                        .setValue(this.plugin.settings.privacyProfile)
+                        .onChange(async (value) => {
+                            this.plugin.settings.privacyProfile = value as PrivacyProfile;
+                            await this.plugin.savePreviewSettings();
+                        }));
+            })
+            .addSetting(setting => {
+                setting
+                    .setName('Strip tracking parameters')
+                    .setDesc('Remove utm_*, fbclid, gclid and similar parameters from links before they are loaded, fetched or checked')
+                    .addToggle(toggle => toggle
+                        .setValue(this.plugin.settings.stripTrackingParams)
+                        .onChange(async (value) => {
+                            this.plugin.settings.stripTrackingParams = value;
+                            await this.plugin.savePreviewSettings();
+                        }));
+            });
+
+        new SettingGroup(containerEl)
+            .setHeading('Loading')
+            .addClass('settings-group-no-margin')
+            .addSetting(setting => {
+                setting
+                    .setName('Check site before loading')
+                    .setDesc('Request the page headers first, and show an error panel instead of the live page when the site returns an HTTP error or blocks embedding')
+                    .addToggle(toggle => toggle
+                        .setValue(this.plugin.settings.checkHeaders)
+                        .onChange(async (value) => {
+                            this.plugin.settings.checkHeaders = value;
+                            await this.plugin.savePreviewSettings();
+                        }));
+            })
+            .addSetting(setting => {
+                setting
+                    .setName('Load timeout')
+                    .setDesc('Time in ms before a loading preview is reported as failed (0 = disabled)')
+                    .addText(text => text
+                        .setPlaceholder('15000')
+                        .setValue(String(this.plugin.settings.loadTimeout))
+                        .onChange(async (value) => {
+                            const numValue = Number(value);
+                            if (!isNaN(numValue) && numValue >= 0) {
+                                this.plugin.settings.loadTimeout = numValue;
+                                await this.plugin.saveSettings();
+                            }
+                        }));
+            });
+
+        const stats = this.plugin.getCacheStats();
+        const lookups = stats.hits + stats.misses;
+        const hitRate = lookups > 0 ? Math.round(stats.hits / lookups * 100) : 0;
+
+        new SettingGroup(containerEl)
+            .setHeading('Cache')
+            .addClass('settings-group-no-margin')
+            .addSetting(setting => {
+                setting
+                    .setName('Cached previews')
+                    .setDesc('Number of closed previews kept loaded for instant reopening (0 = disabled)')
+                    .addText(text => text
+                        .setPlaceholder('3')
+                        .setValue(String(this.plugin.settings.cacheSize))
+                        .onChange(async (value) => {
+                            const numValue = Number(value);
+                            if (Number.isInteger(numValue) && numValue >= 0) {
+                                this.plugin.settings.cacheSize = numValue;
+                                await this.plugin.saveSettings();
+                            }
+                        }));
+            })
+            .addSetting(setting => {
+                setting
+                    .setName('Prefetch visible links')
+                    .setDesc('Start loading the links visible in the current note when the modifier keys of a hover profile are pressed')
+                    .addToggle(toggle => toggle
+                        .setValue(this.plugin.settings.prefetchOnModifier)
+                        .onChange(async (value) => {
+                            this.plugin.settings.prefetchOnModifier = value;
+                            await this.plugin.saveSettings();
+                        }));
+            })
+            .addSetting(setting => {
+                setting
+                    .setName('Statistics')
+                    .setDesc(`${stats.size} cached, ${stats.hits} hits, ${stats.misses} misses (${hitRate}% hit rate), ${stats.evictions} evicted, ${stats.prefetches} prefetched`)
+                    .addButton(button => button
+                        .setButtonText('Clear cache')
+                        .onClick(() => {
+                            this.plugin.clearCache();
+                            this.display();
+                        }));
+            });
+
+        new SettingGroup(containerEl)
+            .setHeading('Preview size')
+            .addClass('settings-group-no-margin')
+            .addSetting(setting => {
+                setting
+                    .setName('Maximum height')
+                    .setDesc('Maximum height of preview window (in px)')
+                    .addText(text => text
+                        .setPlaceholder('300')
+                        .setValue(String(this.plugin.settings.maxPreviewHeight))
+                        .onChange(async (value) => {
+                            this.plugin.settings.maxPreviewHeight = Number(value);
+                            await this.plugin.saveSettings();
+                        }));
+            })
+            .addSetting(setting => {
+                setting
+                    .setName('Maximum width')
+                    .setDesc('Maximum width of preview window (in px)')
+                    .addText(text => text
+                        .setPlaceholder('400')
+                        .setValue(String(this.plugin.settings.maxPreviewWidth))
+                        .onChange(async (value) => {
+                            this.plugin.settings.maxPreviewWidth = Number(value);
+                            await this.plugin.saveSettings();
+                        }));
+            })
+            .addSetting(setting => {
+                setting
+                    .setName('Fit to content')
+                    .setDesc('Shrink the preview when the content is smaller than the maximum size, such as images, videos, embedded posts and metadata cards')
+                    .addToggle(toggle => toggle
+                        .setValue(this.plugin.settings.fitToContent)
+                        .onChange(async (value) => {
+                            this.plugin.settings.fitToContent = value;
+                            await this.plugin.saveSettings();
+                        }));
+            });
+
+        this.displaySurfaceSettings(containerEl);
+        this.displayAnnotationSettings(containerEl);
+        this.displayAdapterSettings(containerEl);
+        this.displayDomainSettings(containerEl);
+    }
 
-        new Setting(containerEl)
-            .setName('Require modifier key')
-            .setDesc('Only show preview when holding a modifier key while hovering')
-            .addToggle(toggle => toggle
-                .setValue(this.plugin.settings.requireModifierKey)
-                .onChange(async (value) => {
-                    this.plugin.settings.requireModifierKey = value;
-                    await this.plugin.saveSettings();
-                    // Refresh display to update disabled/opacity states
-                    this.display();
-                }));
+    private displayDomainSettings(containerEl: HTMLElement) {
+        const parseList = (value: string) => value.split('\n').map(line => line.trim()).filter(line => line.length > 0);
 
-        // Modifier key toggles
-        const modifierKeyNames: { key: keyof ModifierKeyConfig; label: string }[] = [
-            { key: 'meta', label: Platform.isMacOS ? 'Command (⌘)' : 'Meta/Win' },
-            { key: 'ctrl', label: Platform.isMacOS ? 'Control (⌃)' : 'Ctrl' },
-            { key: 'alt', label: Platform.isMacOS ? 'Option (⌥)' : 'Alt' },
-            { key: 'shift', label: 'Shift' },
-        ];
+        new SettingGroup(containerEl)
+            .setHeading('Domains')
+            .addClass('settings-group-no-margin')
+            .addSetting(setting => {
+                setting
+                    .setName('Allowed domains')
+                    .setDesc('Only preview links to these domains, one per line. Use * as a wildcard, subdomains are included. Leave empty to allow all.')
+                    .addTextArea(text => text
+                        .setPlaceholder('*.example.com')
+                        .setValue(this.plugin.settings.allowedDomains.join('\n'))
+                        .onChange(async (value) => {
+                            this.plugin.settings.allowedDomains = parseList(value);
+                            await this.plugin.savePreviewSettings();
+                        }));
+            })
+            .addSetting(setting => {
+                setting
+                    .setName('Denied domains')
+                    .setDesc('Never preview links to these domains, one per line. Takes precedence over allowed domains.')
+                    .addTextArea(text => text
+                        .setPlaceholder('*.bank.example')
+                        .setValue(this.plugin.settings.deniedDomains.join('\n'))
+                        .onChange(async (value) => {
+                            this.plugin.settings.deniedDomains = parseList(value);
+                            await this.plugin.savePreviewSettings();
+                        }));
+            })
+            .addSetting(setting => {
+                setting
+                    .setName('Resolve redirects')
+                    .setDesc('Follow links to where they end up before previewing, so domain rules apply to the destination. The preview shows the final domain and warns when it differs from the link. Only available in the desktop app.')
+                    // Redirects are followed with Node's http module, which mobile doesn't have
+                    .setDisabled(!Platform.isDesktopApp)
+                    .addDropdown(dropdown => dropdown
+                        .addOption('off', 'Off')
+                        .addOption('short-links', 'Short links only')
+                        .addOption('all', 'All links')
+                        .setValue(this.plugin.settings.resolveRedirects)
+                        .onChange(async (value) => {
+                            this.plugin.settings.resolveRedirects = value as RedirectResolution;
+                            await this.plugin.savePreviewSettings();
+                        }));
+            })
+            .addSetting(setting => {
+                setting
+                    .setName('Short link domains')
+                    .setDesc('Link shorteners and redirect services resolved in "short links only" mode, one per line')
+                    .setDisabled(!Platform.isDesktopApp)
+                    .addTextArea(text => text
+                        .setPlaceholder('*.example.link')
+                        .setValue(this.plugin.settings.shortLinkDomains.join('\n'))
+                        .onChange(async (value) => {
+                            this.plugin.settings.shortLinkDomains = parseList(value);
+                            await this.plugin.savePreviewSettings();
+                        }));
+            })
+            .addSetting(setting => {
+                setting
+                    .setName('Import and export')
+                    .setDesc('Share domain lists and rules as JSON')
+                    .addButton(button => button
+                        .setButtonText('Export')
+                        .onClick(async () => {
+                            const { allowedDomains, deniedDomains, domainRules } = this.plugin.settings;
+                            const data: DomainRulesExport = { allowedDomains, deniedDomains, domainRules };
+                            await navigator.clipboard.writeText(JSON.stringify(data, null, 2));
+                            new Notice('Domain rules copied to clipboard');
+                        }))
+                    .addButton(button => button
+                        .setButtonText('Import')
+                        .onClick(() => {
+                            new DomainRulesImportModal(this.app, async (data) => {
+                                this.plugin.settings.allowedDomains = data.allowedDomains;
+                                this.plugin.settings.deniedDomains = data.deniedDomains;
+                                this.plugin.settings.domainRules = data.domainRules;
+                                await this.plugin.savePreviewSettings();
+                                this.display();
+                            }).open();
+                        }));
+            });
 
-        const modifierGroup = new SettingGroup(containerEl)
-            .setHeading('Modifier keys')
+        const rulesGroup = new SettingGroup(containerEl)
+            .setHeading('Domain rules')
             .addClass('settings-group-no-margin');
 
-        if (!isModifierKeyEnabled) {
-            modifierGroup.addClass('setting-disabled');
-        }
+        this.plugin.settings.domainRules.forEach((rule, index) => {
+            rulesGroup.addSetting(setting => {
+                setting
+                    .setName(rule.pattern || `Rule ${index + 1}`)
+                    .setDesc('Domain, preview mode, maximum width and height, hover delay and whether to block scripts')
+                    .addText(text => text
+                        .setPlaceholder('*.example.com')
+                        .setValue(rule.pattern)
+                        .onChange(async (value) => {
+                            rule.pattern = value.trim();
+                            await this.plugin.savePreviewSettings();
+                        }))
+                    .addDropdown(dropdown => dropdown
+                        .addOption('', 'Default mode')
+                        .addOption('iframe', 'Live page')
+                        .addOption('card', 'Metadata card')
+                        .addOption('readable', 'Readable text')
+                        .addOption('auto', 'Automatic')
+                        .setValue(rule.previewMode)
+                        .onChange(async (value) => {
+                            rule.previewMode = value as PreviewMode | '';
+                            await this.plugin.savePreviewSettings();
+                        }))
+                    .addText(text => text
+                        .setPlaceholder('Width')
+                        .setValue(rule.maxWidth ? String(rule.maxWidth) : '')
+                        .onChange(async (value) => {
+                            const numValue = Number(value);
+                            if (!isNaN(numValue) && numValue >= 0) {
+                                rule.maxWidth = numValue;
+                                await this.plugin.savePreviewSettings();
+                            }
+                        }))
+                    .addText(text => text
+                        .setPlaceholder('Height')
+                        .setValue(rule.maxHeight ? String(rule.maxHeight) : '')
+                        .onChange(async (value) => {
+                            const numValue = Number(value);
+                            if (!isNaN(numValue) && numValue >= 0) {
+                                rule.maxHeight = numValue;
+                                await this.plugin.savePreviewSettings();
+                            }
+                        }))
+                    .addText(text => text
+                        .setPlaceholder('Delay')
+                        .setValue(rule.hoverDelay !== undefined ? String(rule.hoverDelay) : '')
+                        .onChange(async (value) => {
+                            const numValue = Number(value);
+                            if (value.trim() === '') {
+                                delete rule.hoverDelay;
+                            } else if (!isNaN(numValue) && numValue >= 0) {
+                                rule.hoverDelay = numValue;
+                            } else {
+                                return;
+                            }
+                            await this.plugin.savePreviewSettings();
+                        }))
+                    .addToggle(toggle => toggle
+                        .setTooltip('Block scripts')
+                        .setValue(rule.disableScripts)
+                        .onChange(async (value) => {
+                            rule.disableScripts = value;
+                            await this.plugin.savePreviewSettings();
+                        }))
+                    .addExtraButton(button => button
+                        .setIcon('trash')
+                        .setTooltip('Remove rule')
+                        .onClick(async () => {
+                            this.plugin.settings.domainRules.splice(index, 1);
+                            await this.plugin.savePreviewSettings();
+                            this.display();
+                        }));
+            });
+        });
 
-        for (const { key, label } of modifierKeyNames) {
-            modifierGroup.addSetting(setting => {
+        rulesGroup.addSetting(setting => {
+            setting
+                .setName('Add rule')
+                .setDesc('The first rule matching a link\'s domain is used')
+                .addButton(button => button
+                    .setButtonText('Add')
+                    .onClick(async () => {
+                        this.plugin.settings.domainRules.push({ ...DEFAULT_DOMAIN_RULE });
+                        await this.plugin.savePreviewSettings();
+                        this.display();
+                    }));
+        });
+    }
+
+    private displayTriggerSettings(containerEl: HTMLElement) {
+        const { triggerProfiles, contextProfiles } = this.plugin.settings;
+
+        const contextGroup = new SettingGroup(containerEl)
+            .setHeading('Triggers')
+            .addClass('settings-group-no-margin');
+
+        for (const context of TRIGGER_CONTEXTS) {
+            contextGroup.addSetting(setting => {
                 setting
-                    .setName(label)
-                    .setDesc(this.getModifierKeyDescription(key))
-                    .addToggle(toggle => {
-                        toggle
-                            .setValue(this.plugin.settings.modifierKeys[key])
+                    .setName(context.name)
+                    .setDesc(context.description)
+                    .addDropdown(dropdown => {
+                        dropdown.addOption('', 'Off');
+                        for (const profile of triggerProfiles) {
+                            dropdown.addOption(profile.id, profile.name);
+                        }
+                        dropdown
+                            .setValue(contextProfiles[context.id])
                             .onChange(async (value) => {
-                                this.plugin.settings.modifierKeys[key] = value;
-                                // Ensure at least one modifier is selected when requireModifierKey is enabled
-                                if (this.plugin.settings.requireModifierKey && !this.hasAnyModifierSelected()) {
-                                    // Reset to platform default
-                                    const defaultKey = Platform.isMacOS ? 'meta' : 'ctrl';
-                                    this.plugin.settings.modifierKeys[defaultKey] = true;
-                                }
+                                contextProfiles[context.id] = value;
                                 await this.plugin.saveSettings();
                                 this.display();
                             });
-                        toggle.setDisabled(!isModifierKeyEnabled);
                     });
             });
         }
 
-        const behaviorGroup = new SettingGroup(containerEl)
-            .setHeading('Behavior')
+        const profile = triggerProfiles.find(p => p.id === this.editedProfileId) ?? triggerProfiles[0];
+        const usedIn = TRIGGER_CONTEXTS.filter(context => profile && contextProfiles[context.id] === profile.id);
+
+        const profileGroup = new SettingGroup(containerEl)
+            .setHeading('Trigger profiles')
             .addClass('settings-group-no-margin');
 
-        behaviorGroup.addSetting(setting => {
+        profileGroup.addSetting(setting => {
             setting
-                .setName('Close on key release')
-                .setDesc('Close preview when modifier key is released')
-                .addToggle(toggle => {
-                    toggle
-                        .setValue(this.plugin.settings.closeOnModifierRelease)
-                        .onChange(async (value) => {
-                            this.plugin.settings.closeOnModifierRelease = value;
-                            await this.plugin.saveSettings();
+                .setName('Edit profile')
+                .setDesc(usedIn.length > 0
+                    ? `Used in: ${usedIn.map(context => context.name.toLowerCase()).join(', ')}`
+                    : 'Not used anywhere')
+                .addDropdown(dropdown => {
+                    for (const p of triggerProfiles) {
+                        dropdown.addOption(p.id, p.name);
+                    }
+                    dropdown
+                        .setValue(profile?.id ?? '')
+                        .onChange((value) => {
+                            this.editedProfileId = value;
+                            this.display();
                         });
-                    toggle.setDisabled(!isModifierKeyEnabled);
-                });
-            if (!isModifierKeyEnabled) {
-                setting.settingEl.addClass('setting-disabled');
-            }
-        });
-
-        behaviorGroup.addSetting(setting => {
-            setting
-                .setName('Sticky popup')
-                .setDesc('Keep popup open until escape or click outside (instead of closing when mouse leaves)')
-                .addToggle(toggle => toggle
-                    .setValue(this.plugin.settings.stickyPopup)
-                    .onChange(async (value) => {
-                        this.plugin.settings.stickyPopup = value;
+                })
+                .addExtraButton(button => button
+                    .setIcon('plus')
+                    .setTooltip('Add profile')
+                    .onClick(async () => {
+                        const added: TriggerProfile = {
+                            ...createDefaultTriggerProfiles()[0],
+                            id: `profile-${Date.now()}`,
+                            name: 'New profile',
+                        };
+                        triggerProfiles.push(added);
+                        this.editedProfileId = added.id;
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+            if (profile) {
+                setting.addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip(usedIn.length > 0 ? 'Assign another profile where this one is used to remove it' : 'Remove profile')
+                    .setDisabled(usedIn.length > 0)
+                    .onClick(async () => {
+                        triggerProfiles.remove(profile);
+                        this.editedProfileId = undefined;
                         await this.plugin.saveSettings();
+                        this.display();
                     }));
+            }
         });
 
-        behaviorGroup.addSetting(setting => {
+        if (!profile) return;
+
+        profileGroup.addSetting(setting => {
             setting
-                .setName('Show open in browser button')
-                .setDesc('Show a button to open the URL in the default browser')
-                .addToggle(toggle => toggle
-                    .setValue(this.plugin.settings.showOpenInBrowser)
+                .setName('Name')
+                .addText(text => text
+                    .setValue(profile.name)
                     .onChange(async (value) => {
-                        this.plugin.settings.showOpenInBrowser = value;
+                        profile.name = value;
                         await this.plugin.saveSettings();
                     }));
         });
 
-        behaviorGroup.addSetting(setting => {
+        profileGroup.addSetting(setting => {
             setting
-                .setName('Show close button')
-                .setDesc('Show a button to close the preview popup')
-                .addToggle(toggle => toggle
-                    .setValue(this.plugin.settings.showCloseButton)
+                .setName('Trigger')
+                .setDesc('How the mouse opens a preview. Touch screens use the touch settings.')
+                .addDropdown(dropdown => dropdown
+                    .addOption('hover', 'Hover')
+                    .addOption('click', 'Click')
+                    .addOption('middle-click', 'Middle-click')
+                    .addOption('long-press', 'Long press')
+                    .setValue(profile.action)
                     .onChange(async (value) => {
-                        this.plugin.settings.showCloseButton = value;
+                        profile.action = value as TriggerAction;
                         await this.plugin.saveSettings();
+                        this.display();
                     }));
         });
 
-        new SettingGroup(containerEl)
-            .setHeading('Mouse settings')
-            .addClass('settings-group-no-margin')
-            .addSetting(setting => {
+        // Modifier key toggles
+        const modifierKeyNames: { key: keyof ModifierKeyConfig; label: string }[] = [
+            { key: 'meta', label: Platform.isMacOS ? 'Command (⌘)' : 'Meta/Win' },
+            { key: 'ctrl', label: Platform.isMacOS ? 'Control (⌃)' : 'Ctrl' },
+            { key: 'alt', label: Platform.isMacOS ? 'Option (⌥)' : 'Alt' },
+            { key: 'shift', label: 'Shift' },
+        ];
+
+        for (const { key, label } of modifierKeyNames) {
+            profileGroup.addSetting(setting => {
+                setting
+                    .setName(label)
+                    .setDesc(this.getModifierKeyDescription(key))
+                    .addToggle(toggle => toggle
+                        .setValue(profile.modifierKeys[key])
+                        .onChange(async (value) => {
+                            profile.modifierKeys[key] = value;
+                            await this.plugin.saveSettings();
+                            this.display();
+                        }));
+            });
+        }
+
+        if (profile.action === 'hover' || profile.action === 'long-press') {
+            profileGroup.addSetting(setting => {
                 setting
-                    .setName('Hover delay')
-                    .setDesc('Delay before showing preview (in ms)')
+                    .setName(profile.action === 'hover' ? 'Hover delay' : 'Press duration')
+                    .setDesc(profile.action === 'hover'
+                        ? 'Delay before showing preview (in ms). Domain rules can override it.'
+                        : 'How long to hold the mouse button on a link (in ms)')
                     .addText(text => text
                         .setPlaceholder('500')
-                        .setValue(String(this.plugin.settings.hoverDelay))
+                        .setValue(String(profile.delay))
                         .onChange(async (value) => {
                             const numValue = Number(value);
                             if (!isNaN(numValue) && numValue >= 0) {
-                                this.plugin.settings.hoverDelay = numValue;
+                                profile.delay = numValue;
                                 await this.plugin.saveSettings();
                             }
                         }));
-            })
-            .addSetting(setting => {
+            });
+        }
+
+        if (profile.action === 'hover') {
+            profileGroup.addSetting(setting => {
                 setting
                     .setName('Mouse stillness delay')
                     .setDesc('Time in ms the mouse must be stationary before showing preview (0 = disabled)')
                     .addText(text => text
                         .setPlaceholder('0')
-                        .setValue(String(this.plugin.settings.mouseStillnessDelay))
+                        .setValue(String(profile.stillnessDelay))
                         .onChange(async (value) => {
                             const numValue = Number(value);
                             if (!isNaN(numValue) && numValue >= 0) {
-                                this.plugin.settings.mouseStillnessDelay = numValue;
+                                profile.stillnessDelay = numValue;
                                 await this.plugin.saveSettings();
                             }
                         }));
             });
+        }
+
+        if (MODIFIER_KEY_TYPES.some(key => profile.modifierKeys[key])) {
+            profileGroup.addSetting(setting => {
+                setting
+                    .setName('Close on key release')
+                    .setDesc('Close preview when modifier key is released')
+                    .addToggle(toggle => toggle
+                        .setValue(profile.closeOnModifierRelease)
+                        .onChange(async (value) => {
+                            profile.closeOnModifierRelease = value;
+                            await this.plugin.saveSettings();
+                        }));
+            });
+        }
+
+        profileGroup.addSetting(setting => {
+            setting
+                .setName('Sticky popup')
+                .setDesc('Keep popup open until escape or click outside (instead of closing when mouse leaves)')
+                .addToggle(toggle => toggle
+                    .setValue(profile.sticky)
+                    .onChange(async (value) => {
+                        profile.sticky = value;
+                        await this.plugin.saveSettings();
+                    }));
+        });
+
+        profileGroup.addSetting(setting => {
+            setting
+                .setName('Try it')
+                .setDesc(`${this.getTriggerDescription(profile)} to preview it with this profile`);
+            // Resolved through data-trigger-profile, so edits above apply right away
+            const link = setting.controlEl.createEl('a', {
+                cls: 'external-link',
+                text: 'Obsidian.md',
+                href: 'https://obsidian.md',
+            });
+            link.dataset.triggerProfile = profile.id;
+        });
+    }
+
+    private getTriggerDescription(profile: TriggerProfile): string {
+        const keyNames: Record<ModifierKeyType, string> = {
+            meta: Platform.isMacOS ? 'Cmd' : 'Win',
+            ctrl: 'Ctrl',
+            alt: Platform.isMacOS ? 'Option' : 'Alt',
+            shift: 'Shift',
+        };
+        const actions: Record<TriggerAction, string> = {
+            'hover': 'hover',
+            'click': 'click',
+            'middle-click': 'middle-click',
+            'long-press': 'press and hold',
+        };
+        const keys = MODIFIER_KEY_TYPES.filter(key => profile.modifierKeys[key]).map(key => keyNames[key]);
+        const trigger = [...keys, actions[profile.action]].join(' + ');
+        return `${trigger.charAt(0).toUpperCase()}${trigger.slice(1)} the link`;
+    }
+
+    private displaySurfaceSettings(containerEl: HTMLElement) {
+        const surfaceGroup = new SettingGroup(containerEl)
+            .setHeading('Where to preview')
+            .addClass('settings-group-no-margin');
+
+        for (const surface of LINK_SURFACES) {
+            surfaceGroup.addSetting(setting => {
+                setting
+                    .setName(surface.name)
+                    .setDesc(surface.description)
+                    .addToggle(toggle => toggle
+                        .setValue(!this.plugin.settings.disabledSurfaces.includes(surface.id))
+                        .onChange(async (value) => {
+                            const disabled = this.plugin.settings.disabledSurfaces.filter(id => id !== surface.id);
+                            if (!value) {
+                                disabled.push(surface.id);
+                            }
+                            this.plugin.settings.disabledSurfaces = disabled;
+                            await this.plugin.saveSettings();
+                            this.plugin.refreshLinkAnnotations();
+                        }));
+            });
+        }
+    }
 
+    private displayAnnotationSettings(containerEl: HTMLElement) {
         new SettingGroup(containerEl)
-            .setHeading('Preview size')
+            .setHeading('Link annotations')
             .addClass('settings-group-no-margin')
             .addSetting(setting => {
                 setting
-                    .setName('Maximum height')
-                    .setDesc('Maximum height of preview window (in px)')
-                    .addText(text => text
-                        .setPlaceholder('300')
-                        .setValue(String(this.plugin.settings.maxPreviewHeight))
+                    .setName('Show favicons')
+                    .setDesc('Show the site icon after external links in live preview and reading view. Icons are loaded from each linked site.')
+                    .addToggle(toggle => toggle
+                        .setValue(this.plugin.settings.showLinkFavicons)
                         .onChange(async (value) => {
-                            this.plugin.settings.maxPreviewHeight = Number(value);
+                            this.plugin.settings.showLinkFavicons = value;
                             await this.plugin.saveSettings();
+                            this.plugin.refreshLinkAnnotations();
                         }));
             })
             .addSetting(setting => {
                 setting
-                    .setName('Maximum width')
-                    .setDesc('Maximum width of preview window (in px)')
-                    .addText(text => text
-                        .setPlaceholder('400')
-                        .setValue(String(this.plugin.settings.maxPreviewWidth))
+                    .setName('Show domains')
+                    .setDesc('Show the domain after external links in live preview and reading view')
+                    .addToggle(toggle => toggle
+                        .setValue(this.plugin.settings.showLinkDomains)
                         .onChange(async (value) => {
-                            this.plugin.settings.maxPreviewWidth = Number(value);
+                            this.plugin.settings.showLinkDomains = value;
+                            await this.plugin.saveSettings();
+                            this.plugin.refreshLinkAnnotations();
+                        }));
+            })
+            .addSetting(setting => {
+                setting
+                    .setName('Mark failed links')
+                    .setDesc('Remember links whose preview failed to load and mark them in notes until a preview succeeds')
+                    .addToggle(toggle => toggle
+                        .setValue(this.plugin.settings.markFailedLinks)
+                        .onChange(async (value) => {
+                            this.plugin.settings.markFailedLinks = value;
+                            if (!value) {
+                                this.plugin.forgetFailedLinks();
+                            }
                             await this.plugin.saveSettings();
+                            this.plugin.refreshLinkAnnotations();
                         }));
             });
     }
 
-    private hasAnyModifierSelected(): boolean {
-        const keys = this.plugin.settings.modifierKeys;
-        return keys.meta || keys.ctrl || keys.alt || keys.shift;
+    private displayAdapterSettings(containerEl: HTMLElement) {
+        const adapterGroup = new SettingGroup(containerEl)
+            .setHeading('Site adapters')
+            .addClass('settings-group-no-margin');
+
+        for (const adapter of BUILTIN_ADAPTERS) {
+            adapterGroup.addSetting(setting => {
+                setting
+                    .setName(adapter.name)
+                    .setDesc(this.getAdapterDescription(adapter))
+                    .addToggle(toggle => toggle
+                        .setValue(!this.plugin.settings.disabledAdapters.includes(adapter.id))
+                        .onChange(async (value) => {
+                            const disabled = this.plugin.settings.disabledAdapters.filter(id => id !== adapter.id);
+                            if (!value) {
+                                disabled.push(adapter.id);
+                            }
+                            this.plugin.settings.disabledAdapters = disabled;
+                            await this.plugin.savePreviewSettings();
+                        }));
+            });
+        }
+
+        const customGroup = new SettingGroup(containerEl)
+            .setHeading('Custom site rules')
+            .addClass('settings-group-no-margin');
+
+        this.plugin.settings.customAdapters.forEach((rule, index) => {
+            customGroup.addSetting(setting => {
+                setting
+                    .setName(`Rule ${index + 1}`)
+                    .setDesc('Pattern (regular expression), rewritten URL with $1, $2 for groups, top crop in pixels and zoom')
+                    .addText(text => text
+                        .setPlaceholder('^https://example\\.com/(.*)$')
+                        .setValue(rule.pattern)
+                        .onChange(async (value) => {
+                            rule.pattern = value;
+                            await this.plugin.savePreviewSettings();
+                        }))
+                    .addText(text => text
+                        .setPlaceholder('https://example.com/embed/$1')
+                        .setValue(rule.rewrite)
+                        .onChange(async (value) => {
+                            rule.rewrite = value;
+                            await this.plugin.savePreviewSettings();
+                        }))
+                    .addText(text => text
+                        .setPlaceholder('0')
+                        .setValue(String(rule.cropTop))
+                        .onChange(async (value) => {
+                            const numValue = Number(value);
+                            if (!isNaN(numValue) && numValue >= 0) {
+                                rule.cropTop = numValue;
+                                await this.plugin.savePreviewSettings();
+                            }
+                        }))
+                    .addText(text => text
+                        .setPlaceholder('1')
+                        .setValue(String(rule.zoom))
+                        .onChange(async (value) => {
+                            const numValue = Number(value);
+                            if (!isNaN(numValue) && numValue > 0) {
+                                rule.zoom = numValue;
+                                await this.plugin.savePreviewSettings();
+                            }
+                        }))
+                    .addExtraButton(button => button
+                        .setIcon('trash')
+                        .setTooltip('Remove rule')
+                        .onClick(async () => {
+                            this.plugin.settings.customAdapters.splice(index, 1);
+                            await this.plugin.savePreviewSettings();
+                            this.display();
+                        }));
+            });
+        });
+
+        customGroup.addSetting(setting => {
+            setting
+                .setName('Add rule')
+                .setDesc('Custom rules are checked before the built-in site adapters')
+                .addButton(button => button
+                    .setButtonText('Add')
+                    .onClick(async () => {
+                        this.plugin.settings.customAdapters.push({ ...DEFAULT_CUSTOM_ADAPTER });
+                        await this.plugin.savePreviewSettings();
+                        this.display();
+                    }));
+        });
+    }
+
+    private getAdapterDescription(adapter: PreviewAdapter): string {
+        if (adapter.rewriteUrl) return 'Load the embeddable version of the page';
+        if (adapter.cropTop) return 'Crop the page header';
+        return 'Adjust the preview for this site';
     }
 
     private getModifierKeyDescription(key: keyof ModifierKeyConfig): string {
@@ -0,0 +1,114 @@
+// Page fetching and metadata parsing for card and readable previews, kept free of
+// Obsidian APIs so it can run against a local server in tests
+
+// The parts of a response metadata parsing needs, requestUrl's response has them
+export interface FetchResponse {
+    status: number;
+    headers: Record<string, string>;
+    text: string;
+}
+
+// GET request that resolves with the response whatever its status
+export type PageFetcher = (url: string) => Promise<FetchResponse>;
+
+export interface FetchedPage {
+    url: string;
+    status: number;
+    // Header names are lowercased
+    headers: Record<string, string>;
+    html: string;
+}
+
+export interface PageMetadata {
+    url: string;
+    title?: string;
+    description?: string;
+    image?: string;
+    siteName?: string;
+    author?: string;
+    favicon?: string;
+    oEmbedUrl?: string;
+}
+
+// Subset of https://oembed.com/#section2.3 used to complete page metadata
+interface OEmbedResponse {
+    title?: string;
+    author_name?: string;
+    provider_name?: string;
+    thumbnail_url?: string;
+}
+
+export function normalizeHeaders(headers: Record<string, string>): Record<string, string> {
+    const normalized: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+        normalized[name.toLowerCase()] = value;
+    }
+    return normalized;
+}
+
+// Pages that aren't HTML are fetched with empty `html`
+export async function fetchPage(url: string, fetcher: PageFetcher): Promise<FetchedPage> {
+    const response = await fetcher(url);
+    const headers = normalizeHeaders(response.headers);
+    const isHtml = (headers['content-type'] ?? 'text/html').includes('html');
+    return { url, status: response.status, headers, html: isHtml ? response.text : '' };
+}
+
+// Page metadata, completed from the page's oEmbed endpoint when it has one
+export async function getPageMetadata(page: FetchedPage, fetcher: PageFetcher): Promise<PageMetadata> {
+    const metadata = parsePageMetadata(page.html, page.url);
+    if (!metadata.oEmbedUrl) return metadata;
+
+    try {
+        const response = await fetcher(metadata.oEmbedUrl);
+        if (response.status >= 400) return metadata;
+        const oEmbed = JSON.parse(response.text) as OEmbedResponse;
+        // Page metadata wins, oEmbed fills in the gaps
+        metadata.title = metadata.title ?? oEmbed.title;
+        metadata.siteName = metadata.siteName ?? oEmbed.provider_name;
+        metadata.image = metadata.image ?? oEmbed.thumbnail_url;
+        metadata.author = metadata.author ?? oEmbed.author_name;
+    } catch {
+        // oEmbed is optional
+    }
+    return metadata;
+}
+
+/**
+ * Extracts Open Graph, Twitter card and standard HTML metadata from a page.
+ * Relative URLs are resolved against `url`.
+ */
+export function parsePageMetadata(html: string, url: string): PageMetadata {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+
+    const meta = (...names: string[]): string | undefined => {
+        for (const name of names) {
+            const el = doc.querySelector(`meta[property="${name}"], meta[name="${name}"]`);
+            const content = el?.getAttribute('content')?.trim();
+            if (content) return content;
+        }
+        return undefined;
+    };
+    const resolve = (href: string | null | undefined): string | undefined => {
+        if (!href) return undefined;
+        try {
+            return new URL(href, url).href;
+        } catch {
+            return undefined;
+        }
+    };
+
+    const icon = doc.querySelector('link[rel~="icon"], link[rel="apple-touch-icon"]');
+    const oEmbed = doc.querySelector('link[rel="alternate"][type="application/json+oembed"]');
+
+    return {
+        url,
+        title: meta('og:title', 'twitter:title') ?? (doc.title.trim() || undefined),
+        description: meta('og:description', 'twitter:description', 'description'),
+        image: resolve(meta('og:image', 'og:image:url', 'twitter:image')),
+        siteName: meta('og:site_name', 'application-name'),
+        author: meta('author', 'article:author'),
+        favicon: resolve(icon?.getAttribute('href')) ?? resolve('/favicon.ico'),
+        oEmbedUrl: resolve(oEmbed?.getAttribute('href')),
+    };
+}
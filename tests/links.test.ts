@@ -0,0 +1,82 @@
+import { describe, test } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { normalizeReferenceLabel, parseMarkdownLinks, parseReferenceDefinition } from '../links';
+
+describe('link parsing', () => {
+    test('keeps balanced parentheses in destinations', () => {
+        assert.deepEqual(parseMarkdownLinks('see [wiki](https://en.wikipedia.org/wiki/Foo_(bar)).'), [
+            { from: 4, to: 51, url: 'https://en.wikipedia.org/wiki/Foo_(bar)' },
+        ]);
+    });
+
+    test('reads angle-bracket destinations', () => {
+        assert.deepEqual(parseMarkdownLinks('[a](<https://x.y/a b (c)>)'), [
+            { from: 0, to: 26, url: 'https://x.y/a b (c)' },
+        ]);
+    });
+
+    test('skips titles in every delimiter style', () => {
+        for (const title of ['"see (b)"', "'see (b)'", '(see b)', '"a \\" quote"']) {
+            const text = `[a](https://x.y ${title}) after`;
+            assert.deepEqual(parseMarkdownLinks(text), [
+                { from: 0, to: text.length - ' after'.length, url: 'https://x.y' },
+            ], title);
+        }
+    });
+
+    test('does not end a link inside its title', () => {
+        const links = parseMarkdownLinks('[a](https://x.y "see (b)") [c](https://z.w)');
+        assert.deepEqual(links.map(link => link.url), ['https://x.y', 'https://z.w']);
+    });
+
+    test('rejects text after the destination that is not a title', () => {
+        assert.deepEqual(parseMarkdownLinks('[a](https://x.y junk)'), [
+            { from: 0, to: 3, ref: 'a' },
+            { from: 4, to: 15, url: 'https://x.y' },
+        ]);
+    });
+
+    test('ignores escaped brackets', () => {
+        assert.deepEqual(parseMarkdownLinks('\\[a](b) [c \\] d](https://x.y)'), [
+            { from: 8, to: 29, url: 'https://x.y' },
+        ]);
+    });
+
+    test('reads full, collapsed and shortcut reference links', () => {
+        assert.deepEqual(parseMarkdownLinks('[a][Ref] [b][] [c]'), [
+            { from: 0, to: 8, ref: 'Ref' },
+            { from: 9, to: 14, ref: 'b' },
+            { from: 15, to: 18, ref: 'c' },
+        ]);
+    });
+
+    test('reads autolinks and bare URLs without trailing punctuation', () => {
+        assert.deepEqual(parseMarkdownLinks('<mailto:a@b.c> and https://x.y/z.'), [
+            { from: 0, to: 14, url: 'mailto:a@b.c' },
+            { from: 19, to: 32, url: 'https://x.y/z' },
+        ]);
+    });
+
+    test('skips links in code spans', () => {
+        assert.deepEqual(parseMarkdownLinks('`[a](https://x.y)` ``a ` https://z.w`` https://v.w'), [
+            { from: 39, to: 50, url: 'https://v.w' },
+        ]);
+    });
+
+    test('treats unclosed backticks as text', () => {
+        assert.deepEqual(parseMarkdownLinks('`` https://x.y `'), [
+            { from: 3, to: 14, url: 'https://x.y' },
+        ]);
+    });
+
+    test('reads reference definitions', () => {
+        assert.deepEqual(parseReferenceDefinition('[My Ref]: https://x.y "title"'), { label: 'My Ref', url: 'https://x.y' });
+        assert.deepEqual(parseReferenceDefinition('   [a]: <https://x.y/a b>'), { label: 'a', url: 'https://x.y/a b' });
+        assert.equal(parseReferenceDefinition('    [a]: https://x.y'), null);
+        assert.equal(parseReferenceDefinition('[a] https://x.y'), null);
+    });
+
+    test('matches reference labels case-insensitively with collapsed whitespace', () => {
+        assert.equal(normalizeReferenceLabel(' My \t Ref '), normalizeReferenceLabel('my ref'));
+    });
+});
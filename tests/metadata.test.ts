@@ -0,0 +1,99 @@
+import { after, before, describe, test } from 'node:test';
+import { strict as assert } from 'node:assert';
+import { readFile } from 'node:fs/promises';
+import { createServer, get, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { join } from 'node:path';
+import { JSDOM } from 'jsdom';
+import { fetchPage, getPageMetadata, PageFetcher } from '../metadata';
+
+const FIXTURES = join(__dirname, 'fixtures');
+
+const CONTENT_TYPES: Record<string, string> = {
+    html: 'text/html; charset=utf-8',
+    json: 'application/json',
+};
+
+// Serves tests/fixtures, anything else is a 404
+function startFixtureServer(): Promise<Server> {
+    const server = createServer((request, response) => {
+        const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+        const name = path.slice(1);
+        readFile(join(FIXTURES, name)).then(body => {
+            response.writeHead(200, { 'Content-Type': CONTENT_TYPES[name.split('.').pop() ?? ''] ?? 'text/plain' });
+            response.end(body);
+        }, () => {
+            response.writeHead(404, { 'Content-Type': 'text/html' });
+            response.end('<title>Not found</title>');
+        });
+    });
+    return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+// Like requestUrl with `throw: false`: error statuses resolve
+const fetcher: PageFetcher = (url) => new Promise((resolve, reject) => {
+    get(url, response => {
+        let text = '';
+        response.setEncoding('utf8');
+        response.on('data', (chunk: string) => text += chunk);
+        response.on('end', () => resolve({
+            status: response.statusCode ?? 0,
+            headers: response.headers as Record<string, string>,
+            text,
+        }));
+    }).on('error', reject);
+});
+
+describe('card metadata', () => {
+    let server: Server;
+    let origin: string;
+
+    before(async () => {
+        globalThis.DOMParser = new JSDOM().window.DOMParser;
+        server = await startFixtureServer();
+        origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+    test('reads Open Graph tags and completes them from oEmbed', async () => {
+        const page = await fetchPage(`${origin}/article.html`, fetcher);
+        assert.equal(page.status, 200);
+        assert.equal(page.headers['content-type'], 'text/html; charset=utf-8');
+
+        assert.deepEqual(await getPageMetadata(page, fetcher), {
+            url: `${origin}/article.html`,
+            title: 'Fixture article',
+            description: 'An article served by the fixture server',
+            image: `${origin}/images/cover.png`,
+            siteName: 'Fixture site',
+            author: 'Fixture author',
+            favicon: `${origin}/icons/favicon.png`,
+            oEmbedUrl: `${origin}/oembed.json`,
+        });
+    });
+
+    test('falls back to the page title, description and conventional favicon', async () => {
+        const page = await fetchPage(`${origin}/plain.html`, fetcher);
+        const metadata = await getPageMetadata(page, fetcher);
+
+        assert.equal(metadata.title, 'Plain page');
+        assert.equal(metadata.description, 'A page without Open Graph tags');
+        assert.equal(metadata.favicon, `${origin}/favicon.ico`);
+        // The oEmbed endpoint is missing, so it adds nothing
+        assert.equal(metadata.author, undefined);
+        assert.equal(metadata.siteName, undefined);
+    });
+
+    test('reports error statuses', async () => {
+        const page = await fetchPage(`${origin}/missing.html`, fetcher);
+        assert.equal(page.status, 404);
+    });
+
+    test('ignores the body of responses that are not HTML', async () => {
+        const page = await fetchPage(`${origin}/oembed.json`, fetcher);
+        assert.equal(page.status, 200);
+        assert.equal(page.html, '');
+        assert.equal((await getPageMetadata(page, fetcher)).title, undefined);
+    });
+});